@@ -3,75 +3,96 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { DocumentTagEditor } from '@/components/DocumentTagEditor';
+import { EmbeddingStatusIndicator } from '@/components/EmbeddingStatusIndicator';
 import { useToast } from '@/components/ui/use-toast';
-import { Upload, FileText, Trash2, Download, RefreshCw } from 'lucide-react';
-import { EmbeddingService } from '@/services/EmbeddingService';
-
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  embedding: number[];
-  metadata: {
-    source: string;
-    uploadedAt: Date;
-    wordCount: number;
-  };
-}
+import { Upload, FileText, Trash2, Download, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useEmbeddingProvider } from '@/hooks/use-embedding-provider';
+import { usePreprocessingOptions } from '@/hooks/use-preprocessing-options';
+import { useVectorStorageOptions } from '@/hooks/use-vector-storage-options';
+import { isCancelledError } from '@/services/EmbeddingErrors';
+import { getModelId, isStaleSpace } from '@/services/EmbeddingSpace';
+import { LANGUAGE_NAMES } from '@/services/LanguageDetection';
+import { getDimensions } from '@/services/VectorQuantization';
+import { IndexingService } from '@/services/IndexingService';
+import { LexicalIndexService } from '@/services/LexicalIndexService';
+import { StorageService } from '@/services/StorageService';
+import type { Document } from '@/types/research';
 
 interface DocumentManagerProps {
   documents: Document[];
-  onDocumentsUpdate: (documents: Document[]) => void;
+  isLoading?: boolean;
 }
 
-export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManagerProps) => {
+export const DocumentManager = ({ documents, isLoading = false }: DocumentManagerProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
+  const [retryingIds, setRetryingIds] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const providerConfig = useEmbeddingProvider();
+  const preprocessing = usePreprocessingOptions();
+  const vectorStorage = useVectorStorageOptions();
+  
+  // Documents whose vectors came from another model or preprocessing version
+  const modelId = getModelId(providerConfig);
+  const isStale = (doc: Document) =>
+    doc.chunks.some(chunk => isStaleSpace(chunk.space, providerConfig, preprocessing, vectorStorage.truncateTo));
+  const staleDocuments = documents.filter(isStale);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
     setProcessingProgress(0);
 
+    let addedCount = 0;
+    let failedCount = 0;
+
     try {
-      const newDocuments: Document[] = [];
-      
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         const content = await readFileAsText(file);
         
-        // Generate embedding using local model
-        const embedding = await EmbeddingService.generateEmbedding(content);
-        
-        const document: Document = {
-          id: crypto.randomUUID(),
-          title: file.name,
-          content,
-          embedding,
-          metadata: {
-            source: file.name,
-            uploadedAt: new Date(),
-            wordCount: content.split(/\s+/).length
-          }
-        };
+        // Chunk the file and embed each chunk using the local model
+        const document = await IndexingService.createDocument(file.name, content, (fileProgress) => {
+          setProcessingProgress(((i + fileProgress) / files.length) * 100);
+        }, controller.signal);
         
-        newDocuments.push(document);
-        setProcessingProgress(((i + 1) / files.length) * 100);
+        // Persist each file as soon as it is indexed so a failure later on keeps earlier work
+        await StorageService.saveDocuments([document]);
+        LexicalIndexService.addDocuments([document]);
+        addedCount++;
+        if (document.embeddingError) failedCount++;
       }
       
-      const updatedDocuments = [...documents, ...newDocuments];
-      onDocumentsUpdate(updatedDocuments);
-      
-      toast({
-        title: "Documents processed successfully",
-        description: `Added ${newDocuments.length} document(s) with local embeddings`,
-      });
+      if (failedCount > 0) {
+        toast({
+          title: "Some embeddings failed",
+          description: `Added ${addedCount} document(s); ${failedCount} could not be embedded and can be retried below`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Documents processed successfully",
+          description: `Added ${addedCount} document(s) with local embeddings`,
+        });
+      }
       
     } catch (error) {
+      // Each file is saved whole once indexed, so a cancelled upload keeps only finished files
+      if (isCancelledError(error)) {
+        toast({
+          title: "Upload cancelled",
+          description: `Added ${addedCount} of ${files.length} document(s) before cancelling`,
+        });
+        return;
+      }
+
       console.error('Error processing documents:', error);
       toast({
         title: "Error processing documents",
@@ -79,6 +100,7 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
       setProcessingProgress(0);
       if (fileInputRef.current) {
@@ -96,45 +118,88 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
     });
   };
 
-  const handleDeleteDocument = (id: string) => {
-    const updatedDocuments = documents.filter(doc => doc.id !== id);
-    onDocumentsUpdate(updatedDocuments);
-    
-    toast({
-      title: "Document removed",
-      description: "Document and its embedding have been deleted",
-    });
+  const handleDeleteDocument = async (id: string) => {
+    try {
+      await StorageService.deleteDocument(id);
+      LexicalIndexService.removeDocument(id);
+      
+      toast({
+        title: "Document removed",
+        description: "Document and its chunk embeddings have been deleted",
+      });
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      toast({
+        title: "Error removing document",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUpdateTags = async (document: Document, tags: string[]) => {
+    try {
+      await StorageService.saveDocumentMetadata({
+        ...document,
+        metadata: { ...document.metadata, tags: tags.length > 0 ? tags : undefined }
+      });
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      toast({
+        title: "Error updating tags",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleRegenerateEmbeddings = async () => {
-    if (documents.length === 0) return;
+  const handleRegenerateEmbeddings = async (targets: Document[] = documents) => {
+    if (targets.length === 0) return;
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
     setProcessingProgress(0);
     
+    let updatedCount = 0;
+    
     try {
-      const updatedDocuments = [];
+      let failedCount = 0;
       
-      for (let i = 0; i < documents.length; i++) {
-        const doc = documents[i];
-        const newEmbedding = await EmbeddingService.generateEmbedding(doc.content);
+      for (let i = 0; i < targets.length; i++) {
+        const doc = await IndexingService.reindexDocument(targets[i], (docProgress) => {
+          setProcessingProgress(((i + docProgress) / targets.length) * 100);
+        }, controller.signal);
         
-        updatedDocuments.push({
-          ...doc,
-          embedding: newEmbedding
-        });
-        
-        setProcessingProgress(((i + 1) / documents.length) * 100);
+        await StorageService.saveDocuments([doc]);
+        LexicalIndexService.addDocuments([doc]);
+        updatedCount++;
+        if (doc.embeddingError) failedCount++;
       }
       
-      onDocumentsUpdate(updatedDocuments);
-      
-      toast({
-        title: "Embeddings regenerated",
-        description: `Updated embeddings for ${documents.length} document(s)`,
-      });
+      if (failedCount > 0) {
+        toast({
+          title: "Some embeddings failed",
+          description: `Updated ${targets.length - failedCount} of ${targets.length} document(s); failed ones can be retried below`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Embeddings regenerated",
+          description: `Updated embeddings for ${targets.length} document(s)`,
+        });
+      }
       
     } catch (error) {
+      // The document being re-embedded keeps its previous chunks
+      if (isCancelledError(error)) {
+        toast({
+          title: "Re-embedding cancelled",
+          description: `Updated ${updatedCount} of ${targets.length} document(s) before cancelling`,
+        });
+        return;
+      }
+
       console.error('Error regenerating embeddings:', error);
       toast({
         title: "Error regenerating embeddings",
@@ -142,11 +207,52 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
       setProcessingProgress(0);
     }
   };
 
+  const handleCancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRetryDocument = async (document: Document) => {
+    setRetryingIds(prev => new Set(prev).add(document.id));
+    
+    try {
+      const doc = await IndexingService.reindexDocument(document);
+      await StorageService.saveDocuments([doc]);
+      LexicalIndexService.addDocuments([doc]);
+      
+      if (doc.embeddingError) {
+        toast({
+          title: "Embedding failed again",
+          description: doc.embeddingError.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Document embedded",
+          description: `${doc.title} is now searchable`,
+        });
+      }
+    } catch (error) {
+      console.error('Error retrying document embedding:', error);
+      toast({
+        title: "Error retrying embedding",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingIds(prev => {
+        const next = new Set(prev);
+        next.delete(document.id);
+        return next;
+      });
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -163,10 +269,21 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">Document Repository</h2>
             <div className="flex gap-2">
+              {staleDocuments.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleRegenerateEmbeddings(staleDocuments)}
+                  disabled={isProcessing}
+                  className="border-research-accent/50 hover:border-research-accent"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Re-embed Stale ({staleDocuments.length})
+                </Button>
+              )}
               {documents.length > 0 && (
                 <Button
                   variant="outline"
-                  onClick={handleRegenerateEmbeddings}
+                  onClick={() => handleRegenerateEmbeddings()}
                   disabled={isProcessing}
                   className="hover:border-research-accent"
                 >
@@ -200,7 +317,13 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
                 <span>Processing documents and generating embeddings...</span>
                 <span>{Math.round(processingProgress)}%</span>
               </div>
-              <Progress value={processingProgress} className="w-full" />
+              <div className="flex items-center gap-2">
+                <Progress value={processingProgress} className="w-full" />
+                <Button variant="outline" size="sm" onClick={handleCancelProcessing}>
+                  Cancel
+                </Button>
+              </div>
+              <EmbeddingStatusIndicator activeOnly />
             </div>
           )}
           
@@ -224,7 +347,11 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
           )}
         </div>
         
-        {documents.length === 0 ? (
+        {isLoading ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Loading documents from local storage...</p>
+          </Card>
+        ) : documents.length === 0 ? (
           <Card className="p-8 text-center">
             <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-semibold mb-2">No documents uploaded</h3>
@@ -249,7 +376,33 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
                     <div className="flex items-center gap-2 mb-2">
                       <FileText className="w-4 h-4 text-research-secondary" />
                       <h4 className="font-semibold truncate">{doc.title}</h4>
-                      <Badge variant="secondary" className="ml-auto">
+                      {doc.embeddingError && (
+                        <Badge variant="destructive" className="ml-auto">
+                          Embedding failed
+                        </Badge>
+                      )}
+                      {!doc.embeddingError && isStale(doc) && (
+                        <Badge
+                          variant="outline"
+                          className="ml-auto border-research-accent text-research-accent"
+                          title={`Embedded with ${doc.chunks[0].space?.modelId ?? 'an unknown model'}; current model is ${modelId}`}
+                        >
+                          Stale
+                        </Badge>
+                      )}
+                      {doc.metadata.language && (
+                        <Badge
+                          variant="outline"
+                          className={doc.embeddingError || isStale(doc) ? '' : 'ml-auto'}
+                          title={LANGUAGE_NAMES[doc.metadata.language] ?? doc.metadata.language}
+                        >
+                          {doc.metadata.language.toUpperCase()}
+                        </Badge>
+                      )}
+                      <Badge
+                        variant="secondary"
+                        className={doc.embeddingError || isStale(doc) || doc.metadata.language ? '' : 'ml-auto'}
+                      >
                         {doc.metadata.wordCount.toLocaleString()} words
                       </Badge>
                     </div>
@@ -258,13 +411,41 @@ export const DocumentManager = ({ documents, onDocumentsUpdate }: DocumentManage
                       {doc.content.slice(0, 200)}...
                     </p>
                     
+                    {doc.embeddingError && (
+                      <div className="flex items-center gap-2 mb-3 text-sm text-destructive">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        <span className="flex-1 truncate">Embedding failed: {doc.embeddingError.message}</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetryDocument(doc)}
+                          disabled={isProcessing || retryingIds.has(doc.id)}
+                        >
+                          <RefreshCw className={`w-3 h-3 mr-1 ${retryingIds.has(doc.id) ? 'animate-spin' : ''}`} />
+                          Retry
+                        </Button>
+                      </div>
+                    )}
+                    
                     <div className="flex items-center gap-4 text-xs text-muted-foreground">
                       <span>
                         Uploaded: {doc.metadata.uploadedAt.toLocaleDateString()}
                       </span>
                       <span>
-                        Embedding: {doc.embedding.length} dimensions
+                        Chunks: {doc.chunks.length}
                       </span>
+                      {doc.chunks.length > 0 && (
+                        <span>
+                          Embedding: {getDimensions(doc.chunks[0].embedding)} dimensions, {doc.chunks[0].embedding.format}
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="mt-2">
+                      <DocumentTagEditor
+                        tags={doc.metadata.tags ?? []}
+                        onChange={(tags) => handleUpdateTags(doc, tags)}
+                      />
                     </div>
                   </div>
                   
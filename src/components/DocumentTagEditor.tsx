@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Tag, X } from 'lucide-react';
+
+interface DocumentTagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+export const DocumentTagEditor = ({ tags, onChange, disabled }: DocumentTagEditorProps) => {
+  const [draft, setDraft] = useState('');
+
+  // Enter or a comma adds the draft; tags differing only in case count as the same
+  const addDraft = () => {
+    const added = draft
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase()));
+    setDraft('');
+    if (added.length > 0) onChange([...tags, ...new Set(added)]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag className="w-3 h-3 text-muted-foreground" />
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="gap-1">
+          {tag}
+          <button
+            type="button"
+            aria-label={`Remove tag ${tag}`}
+            onClick={() => onChange(tags.filter(existing => existing !== tag))}
+            disabled={disabled}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addDraft();
+          }
+        }}
+        onBlur={addDraft}
+        placeholder="Add tag"
+        className="h-6 w-28 text-xs"
+        disabled={disabled}
+      />
+    </div>
+  );
+};
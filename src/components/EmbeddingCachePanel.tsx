@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import { HardDrive, Trash2 } from 'lucide-react';
+import { useEmbeddingCacheStats } from '@/hooks/use-embedding-cache-stats';
+import { EmbeddingCacheService } from '@/services/EmbeddingCacheService';
+
+export const EmbeddingCachePanel = () => {
+  const stats = useEmbeddingCacheStats();
+  const [maxEntries, setMaxEntries] = useState(String(stats.maxEntries));
+  const { toast } = useToast();
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? (stats.hits / lookups) * 100 : 0;
+  const usage = stats.maxEntries > 0 ? (stats.entries / stats.maxEntries) * 100 : 0;
+
+  const handleSaveLimit = async () => {
+    const limit = Number(maxEntries);
+    if (!Number.isFinite(limit) || limit < 0) {
+      setMaxEntries(String(stats.maxEntries));
+      return;
+    }
+
+    try {
+      await EmbeddingCacheService.setMaxEntries(limit);
+      toast({
+        title: "Cache limit updated",
+        description: limit === 0 ? "Embedding cache is disabled" : `Keeping up to ${limit.toLocaleString()} vectors`,
+      });
+    } catch (error) {
+      console.error('Error updating embedding cache limit:', error);
+      toast({
+        title: "Error updating cache limit",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await EmbeddingCacheService.clear();
+      toast({
+        title: "Embedding cache cleared",
+        description: "Vectors will be recomputed the next time they are needed",
+      });
+    } catch (error) {
+      console.error('Error clearing embedding cache:', error);
+      toast({
+        title: "Error clearing embedding cache",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <HardDrive className="w-5 h-5 text-research-accent" />
+            <h3 className="text-lg font-semibold">Embedding Cache</h3>
+          </div>
+          <Button onClick={handleClear} variant="outline" size="sm" disabled={stats.entries === 0}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.hits.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">Hits</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.misses.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">Misses</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{Math.round(hitRate)}%</p>
+            <p className="text-xs text-muted-foreground">Hit rate this session</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Cached vectors</span>
+            <span>{stats.entries.toLocaleString()} / {stats.maxEntries.toLocaleString()}</span>
+          </div>
+          <Progress value={usage} className="w-full" />
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="embedding-cache-limit">Maximum cached vectors</Label>
+            <Input
+              id="embedding-cache-limit"
+              type="number"
+              min={0}
+              value={maxEntries}
+              onChange={(e) => setMaxEntries(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleSaveLimit} variant="outline">
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Least recently used vectors are evicted beyond the limit; 0 turns the cache off.
+        </p>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,470 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { CheckCircle, FolderSearch, Gauge, Loader2, Settings, XCircle } from 'lucide-react';
+import { EmbeddingService } from '@/services/EmbeddingService';
+import {
+  PROVIDERS,
+  TRANSFORMERS_DEVICES,
+  TRANSFORMERS_DTYPES,
+  getProviderDescriptor
+} from '@/services/providers/ProviderRegistry';
+import { EMBEDDING_MODELS, TEXT_PLACEHOLDER, findModel, getPromptTemplates } from '@/services/providers/ModelRegistry';
+import type { PreprocessingOptions } from '@/services/TextPreprocessing';
+import { VECTOR_FORMATS, type VectorFormat, type VectorStorageOptions } from '@/services/VectorQuantization';
+import type {
+  BenchmarkResult,
+  BenchmarkRun,
+  ModelFileCheck,
+  OfflineModelConfig,
+  ProviderConfig,
+  ProviderId,
+  TransformersDevice,
+  TransformersDtype
+} from '@/services/providers/EmbeddingProvider';
+
+// Matches serving the files from public/models and public/ort
+const DEFAULT_OFFLINE_CONFIG: OfflineModelConfig = { modelPath: '/models', wasmPath: '/ort' };
+
+const formatRun = (run: BenchmarkRun) =>
+  `${run.textsPerSecond.toFixed(1)} texts/s on ${run.device}, loaded in ${(run.loadMs / 1000).toFixed(1)}s`;
+
+export const EmbeddingSettings = () => {
+  const [config, setConfig] = useState<ProviderConfig>(() => EmbeddingService.getProviderConfig());
+  const [isApplying, setIsApplying] = useState(false);
+  const [fileCheck, setFileCheck] = useState<ModelFileCheck | null>(null);
+  const [isCheckingFiles, setIsCheckingFiles] = useState(false);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingOptions>(() => EmbeddingService.getPreprocessing());
+  const [vectorStorage, setVectorStorage] = useState<VectorStorageOptions>(() => EmbeddingService.getVectorStorage());
+  const [benchmark, setBenchmark] = useState<BenchmarkResult | null>(null);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+  const { toast } = useToast();
+
+  const descriptor = getProviderDescriptor(config.provider);
+  const prompts = getPromptTemplates(config);
+  const hasPrompts = prompts.query !== TEXT_PLACEHOLDER || prompts.document !== TEXT_PLACEHOLDER;
+
+  const handleProviderChange = (id: string) => {
+    // Keep edits when switching back to the provider that is already active
+    const active = EmbeddingService.getProviderConfig();
+    setConfig(active.provider === id ? active : getProviderDescriptor(id as ProviderId).defaultConfig);
+    setFileCheck(null);
+    setBenchmark(null);
+  };
+
+  const updateConfig = (next: ProviderConfig) => {
+    setConfig(next);
+    setFileCheck(null);
+    setBenchmark(null);
+  };
+
+  const handleBenchmark = async () => {
+    if (config.provider !== 'transformers') return;
+    setIsBenchmarking(true);
+
+    try {
+      setBenchmark(await EmbeddingService.runBenchmark(config));
+    } catch (error) {
+      console.error('Error running embedding benchmark:', error);
+      toast({
+        title: "Benchmark failed",
+        description: error instanceof Error ? error.message : "Please check the model settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBenchmarking(false);
+    }
+  };
+
+  const handleCheckFiles = async () => {
+    setIsCheckingFiles(true);
+
+    try {
+      setFileCheck(await EmbeddingService.checkModelFiles(config));
+    } catch (error) {
+      console.error('Error checking model files:', error);
+      toast({
+        title: "Could not check model files",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingFiles(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+
+    try {
+      EmbeddingService.setPreprocessing(preprocessing);
+      EmbeddingService.setVectorStorage(vectorStorage);
+      await EmbeddingService.setProviderConfig(config);
+
+      toast({
+        title: "Embedding provider ready",
+        description: `${descriptor.label} is active. Regenerate embeddings to re-index existing documents.`,
+      });
+    } catch (error) {
+      console.error('Error switching embedding provider:', error);
+      toast({
+        title: "Embedding provider failed to start",
+        description: error instanceof Error ? error.message : "Please check the provider settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Settings className="w-5 h-5 text-research-accent" />
+          <h3 className="text-lg font-semibold">Embedding Provider</h3>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={config.provider} onValueChange={handleProviderChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{descriptor.description}</p>
+          </div>
+
+          {config.provider === 'transformers' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-model-id">Model</Label>
+                <Input
+                  id="embedding-model-id"
+                  value={config.modelId}
+                  onChange={(e) => updateConfig({ ...config, modelId: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Known models</Label>
+                <Select
+                  value={findModel(config.modelId)?.modelId ?? ''}
+                  onValueChange={(modelId) => updateConfig({ ...config, modelId })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Custom model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMBEDDING_MODELS.map((model) => (
+                      <SelectItem key={model.modelId} value={model.modelId}>
+                        {model.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Pick a multilingual model when part of the corpus is not in English
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Precision</Label>
+                <Select
+                  value={config.dtype ?? 'fp32'}
+                  onValueChange={(value) => updateConfig({ ...config, dtype: value as TransformersDtype })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRANSFORMERS_DTYPES.map((dtype) => (
+                      <SelectItem key={dtype.id} value={dtype.id}>
+                        {dtype.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Device</Label>
+                <Select
+                  value={config.device ?? 'auto'}
+                  onValueChange={(value) => updateConfig({ ...config, device: value as TransformersDevice })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRANSFORMERS_DEVICES.map((device) => (
+                      <SelectItem key={device.id} value={device.id}>
+                        {device.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-4 md:col-span-2">
+                <div>
+                  <Label htmlFor="embedding-offline">Offline mode</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Load the model and runtime from local files only; nothing is downloaded
+                  </p>
+                </div>
+                <Switch
+                  id="embedding-offline"
+                  checked={!!config.offline}
+                  onCheckedChange={(checked) =>
+                    updateConfig({ ...config, offline: checked ? DEFAULT_OFFLINE_CONFIG : undefined })
+                  }
+                />
+              </div>
+              {config.offline && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="embedding-model-path">Local model directory</Label>
+                    <Input
+                      id="embedding-model-path"
+                      value={config.offline.modelPath}
+                      onChange={(e) => updateConfig({ ...config, offline: { ...config.offline!, modelPath: e.target.value } })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="embedding-wasm-path">ONNX runtime directory</Label>
+                    <Input
+                      id="embedding-wasm-path"
+                      value={config.offline.wasmPath}
+                      onChange={(e) => updateConfig({ ...config, offline: { ...config.offline!, wasmPath: e.target.value } })}
+                    />
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          {config.provider === 'hashing' && (
+            <div className="space-y-2">
+              <Label htmlFor="embedding-dimensions">Dimensions</Label>
+              <Input
+                id="embedding-dimensions"
+                type="number"
+                min={16}
+                max={4096}
+                value={config.dimensions}
+                onChange={(e) => updateConfig({ ...config, dimensions: Number(e.target.value) || 512 })}
+              />
+            </div>
+          )}
+
+          {config.provider === 'openai-compatible' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-base-url">Base URL</Label>
+                <Input
+                  id="embedding-base-url"
+                  value={config.baseUrl}
+                  onChange={(e) => updateConfig({ ...config, baseUrl: e.target.value })}
+                  placeholder="http://localhost:8080"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-remote-model">Model</Label>
+                <Input
+                  id="embedding-remote-model"
+                  value={config.model}
+                  onChange={(e) => updateConfig({ ...config, model: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-api-key">API key (optional)</Label>
+                <Input
+                  id="embedding-api-key"
+                  type="password"
+                  value={config.apiKey ?? ''}
+                  onChange={(e) => updateConfig({ ...config, apiKey: e.target.value || undefined })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Text preprocessing</h4>
+          <p className="text-xs text-muted-foreground">
+            Text is Unicode-normalized (NFKC) and stripped of control characters; letters in every script are kept.
+          </p>
+          {([
+            ['stripPunctuation', 'Strip punctuation', 'Replace punctuation with spaces before embedding'],
+            ['stripSymbols', 'Strip symbols', 'Remove emoji, currency, math and other symbols'],
+            ['detectLanguage', 'Detect document language', 'Tag each document with its language when it is indexed']
+          ] as const).map(([key, label, description]) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`preprocessing-${key}`}>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={`preprocessing-${key}`}
+                checked={preprocessing[key]}
+                onCheckedChange={(checked) => setPreprocessing({ ...preprocessing, [key]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Vector storage</h4>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="vector-truncate">Truncate to dimensions</Label>
+              <Input
+                id="vector-truncate"
+                type="number"
+                min={16}
+                placeholder="Full length"
+                value={vectorStorage.truncateTo ?? ''}
+                onChange={(e) => setVectorStorage({ ...vectorStorage, truncateTo: Number(e.target.value) || undefined })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Matryoshka truncation; only models trained for it keep their accuracy
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Storage format</Label>
+              <Select
+                value={vectorStorage.format}
+                onValueChange={(value) => setVectorStorage({ ...vectorStorage, format: value as VectorFormat })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VECTOR_FORMATS.map((format) => (
+                    <SelectItem key={format.id} value={format.id}>
+                      {format.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Applies to documents as they are next embedded
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="vector-rescore">Full-precision rescoring</Label>
+              <p className="text-xs text-muted-foreground">
+                Re-rank the best compact matches with the unquantized query vector
+              </p>
+            </div>
+            <Switch
+              id="vector-rescore"
+              checked={vectorStorage.rescore}
+              onCheckedChange={(checked) => setVectorStorage({ ...vectorStorage, rescore: checked })}
+            />
+          </div>
+        </div>
+
+        {config.provider !== 'hashing' && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            {hasPrompts ? (
+              <>
+                <p>Query prompt: <code className="break-all">{prompts.query}</code></p>
+                <p>Document prompt: <code className="break-all">{prompts.document}</code></p>
+              </>
+            ) : (
+              <p>No prompt templates are registered for this model; queries and documents are embedded as is.</p>
+            )}
+          </div>
+        )}
+
+        {fileCheck && (
+          <div className="space-y-1 text-sm">
+            {fileCheck.missing.length === 0 ? (
+              <p className="flex items-center gap-2 text-research-accent">
+                <CheckCircle className="w-4 h-4" />
+                All {fileCheck.required.length} required files are present
+              </p>
+            ) : (
+              <>
+                <p className="flex items-center gap-2 text-destructive">
+                  <XCircle className="w-4 h-4" />
+                  {fileCheck.missing.length} of {fileCheck.required.length} required files are missing:
+                </p>
+                <ul className="pl-6 text-xs text-muted-foreground list-disc">
+                  {fileCheck.missing.map((file) => (
+                    <li key={file} className="break-all">{file}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        {benchmark && (
+          <div className="space-y-1 text-sm">
+            <p className="flex items-center gap-2 font-medium">
+              <Gauge className="w-4 h-4 text-research-accent" />
+              Benchmark over {benchmark.texts} texts
+            </p>
+            <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 pl-6 text-muted-foreground">
+              <span>{benchmark.candidate.dtype}</span>
+              <span>{formatRun(benchmark.candidate)}</span>
+              {benchmark.candidate.dtype !== 'fp32' && (
+                <>
+                  <span>fp32</span>
+                  <span>
+                    {formatRun(benchmark.reference)} ({(benchmark.candidate.textsPerSecond / benchmark.reference.textsPerSecond).toFixed(2)}x speedup)
+                  </span>
+                </>
+              )}
+              <span>Agreement</span>
+              <span>
+                mean cosine {benchmark.meanAgreement.toFixed(4)}, worst {benchmark.minAgreement.toFixed(4)} vs fp32
+              </span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {config.provider === 'transformers' && (
+            <Button onClick={handleBenchmark} disabled={isBenchmarking} variant="outline">
+              {isBenchmarking ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Gauge className="w-4 h-4 mr-2" />
+              )}
+              Benchmark
+            </Button>
+          )}
+          {config.provider === 'transformers' && config.offline && (
+            <Button onClick={handleCheckFiles} disabled={isCheckingFiles} variant="outline">
+              {isCheckingFiles ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <FolderSearch className="w-4 h-4 mr-2" />
+              )}
+              Check Files
+            </Button>
+          )}
+          <Button onClick={handleApply} disabled={isApplying} variant="outline">
+            {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Apply
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useEmbeddingStatus } from '@/hooks/use-embedding-status';
+import type { EmbeddingStatus } from '@/services/EmbeddingService';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const STATUS_LABELS: Record<EmbeddingStatus['state'], string> = {
+  idle: 'Not loaded yet',
+  loading: 'Starting...',
+  downloading: 'Downloading model',
+  compiling: 'Compiling model',
+  ready: 'Ready',
+  failed: 'Failed to load'
+};
+
+interface EmbeddingStatusIndicatorProps {
+  // Hide the indicator unless the model is downloading or compiling
+  activeOnly?: boolean;
+}
+
+export const EmbeddingStatusIndicator = ({ activeOnly = false }: EmbeddingStatusIndicatorProps) => {
+  const status = useEmbeddingStatus();
+  const isLoading = status.state === 'loading' || status.state === 'downloading' || status.state === 'compiling';
+
+  if (activeOnly && !isLoading) return null;
+
+  return (
+    <div className="space-y-2">
+      <Badge
+        variant={status.state === 'failed' ? 'destructive' : 'secondary'}
+        className="mt-1"
+        title={status.state === 'failed' ? status.message : undefined}
+      >
+        {STATUS_LABELS[status.state]}
+        {status.state === 'ready' && ` (${status.device})`}
+      </Badge>
+
+      {status.state === 'downloading' && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground gap-2">
+            <span className="truncate" title={status.file}>{status.file}</span>
+            <span className="shrink-0">
+              {formatBytes(status.loadedBytes)} / {formatBytes(status.totalBytes)} ({Math.round(status.percent)}%)
+            </span>
+          </div>
+          <Progress value={status.percent} className="w-full" />
+        </div>
+      )}
+
+      {status.state === 'compiling' && (
+        <p className="text-xs text-muted-foreground">Download complete, building the inference session...</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { TextSearch } from 'lucide-react';
+import { useLexicalIndex } from '@/hooks/use-lexical-index';
+import { LexicalIndexService, type LexicalIndexSettings } from '@/services/LexicalIndexService';
+import { ENGLISH_STOPWORDS, TOKENIZERS, type TokenizerType } from '@/services/TextAnalysis';
+import type { Document } from '@/types/research';
+
+interface LexicalIndexPanelProps {
+  documents: Document[];
+}
+
+const formatStopwords = (stopwords: string[]) => stopwords.join(', ');
+
+const parseStopwords = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+export const LexicalIndexPanel = ({ documents }: LexicalIndexPanelProps) => {
+  const { settings, stats } = useLexicalIndex();
+  const [draft, setDraft] = useState<LexicalIndexSettings>(settings);
+  const [stopwords, setStopwords] = useState(formatStopwords(settings.stopwords));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDraft(settings);
+    setStopwords(formatStopwords(settings.stopwords));
+  }, [settings]);
+
+  const handleApply = () => {
+    if (!(draft.k1 >= 0) || !(draft.b >= 0 && draft.b <= 1)) {
+      toast({
+        title: "Invalid BM25 parameters",
+        description: "k1 must be at least 0 and b between 0 and 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      LexicalIndexService.setSettings({ ...draft, stopwords: parseStopwords(stopwords) }, documents);
+      toast({
+        title: "Keyword index rebuilt",
+        description: `${LexicalIndexService.getStats().chunks.toLocaleString()} chunks indexed`,
+      });
+    } catch (error) {
+      console.error('Error rebuilding keyword index:', error);
+      toast({
+        title: "Error rebuilding keyword index",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <TextSearch className="w-5 h-5 text-research-accent" />
+          <h3 className="text-lg font-semibold">Keyword Index</h3>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.chunks.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">Indexed chunks</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.terms.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">Distinct terms</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tokenizer</Label>
+          <Select
+            value={draft.tokenizer}
+            onValueChange={(tokenizer) => setDraft({ ...draft, tokenizer: tokenizer as TokenizerType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TOKENIZERS.map(tokenizer => (
+                <SelectItem key={tokenizer.id} value={tokenizer.id}>
+                  {tokenizer.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="lexical-stemming">English stemming</Label>
+            <p className="text-xs text-muted-foreground">Match "indexing" with "indexed" and "indexes"</p>
+          </div>
+          <Switch
+            id="lexical-stemming"
+            checked={draft.stemming}
+            onCheckedChange={(stemming) => setDraft({ ...draft, stemming })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="lexical-stopwords">Stopwords</Label>
+            <Button variant="ghost" size="sm" onClick={() => setStopwords(formatStopwords(ENGLISH_STOPWORDS))}>
+              Reset to English
+            </Button>
+          </div>
+          <Textarea
+            id="lexical-stopwords"
+            rows={3}
+            value={stopwords}
+            onChange={(e) => setStopwords(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Separated by commas or spaces; leave empty to keep every word.</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="lexical-k1">k1</Label>
+            <Input
+              id="lexical-k1"
+              type="number"
+              min={0}
+              step={0.1}
+              value={draft.k1}
+              onChange={(e) => setDraft({ ...draft, k1: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lexical-b">b</Label>
+            <Input
+              id="lexical-b"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.b}
+              onChange={(e) => setDraft({ ...draft, b: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleApply} variant="outline" className="w-full">
+          Apply and rebuild
+        </Button>
+      </div>
+    </Card>
+  );
+};
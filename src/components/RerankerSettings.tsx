@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { ListOrdered } from 'lucide-react';
+import { useRerankSettings } from '@/hooks/use-rerank-settings';
+import { RerankService, type RerankSettings } from '@/services/RerankService';
+import { RERANKER_MODELS } from '@/services/providers/ModelRegistry';
+import { TRANSFORMERS_DTYPES } from '@/services/providers/ProviderRegistry';
+import type { TransformersDtype } from '@/services/providers/EmbeddingProvider';
+
+export const RerankerSettings = () => {
+  const settings = useRerankSettings();
+  const [draft, setDraft] = useState<RerankSettings>(settings);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleApply = () => {
+    if (!Number.isInteger(draft.topN) || draft.topN < 1) {
+      toast({
+        title: "Invalid candidate count",
+        description: "Top N must be a whole number of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    RerankService.setSettings({ ...draft, modelId: draft.modelId.trim() || settings.modelId });
+    toast({
+      title: draft.enabled ? "Reranking enabled" : "Reranking disabled",
+      description: draft.enabled
+        ? `The top ${draft.topN} candidates are rescored; the model downloads on the next search`
+        : "Results keep their first-stage order",
+    });
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-research-accent" />
+            <h3 className="text-lg font-semibold">Cross-Encoder Reranking</h3>
+          </div>
+          <Switch
+            id="rerank-enabled"
+            checked={draft.enabled}
+            onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Reads the query together with each top candidate to reorder them. Slower than vector search, but
+          much better at putting the passage that actually answers the question first.
+        </p>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="rerank-model">Model</Label>
+            <Input
+              id="rerank-model"
+              value={draft.modelId}
+              disabled={!draft.enabled}
+              onChange={(e) => setDraft({ ...draft, modelId: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Known models</Label>
+            <Select
+              value={RERANKER_MODELS.some(model => model.modelId === draft.modelId) ? draft.modelId : undefined}
+              onValueChange={(modelId) => setDraft({ ...draft, modelId })}
+              disabled={!draft.enabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Custom model" />
+              </SelectTrigger>
+              <SelectContent>
+                {RERANKER_MODELS.map(model => (
+                  <SelectItem key={model.modelId} value={model.modelId}>
+                    {model.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Precision</Label>
+            <Select
+              value={draft.dtype}
+              onValueChange={(dtype) => setDraft({ ...draft, dtype: dtype as TransformersDtype })}
+              disabled={!draft.enabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSFORMERS_DTYPES.map(dtype => (
+                  <SelectItem key={dtype.id} value={dtype.id}>
+                    {dtype.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rerank-top-n">Candidates to rerank (top N)</Label>
+            <Input
+              id="rerank-top-n"
+              type="number"
+              min={1}
+              value={draft.topN}
+              disabled={!draft.enabled}
+              onChange={(e) => setDraft({ ...draft, topN: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleApply} variant="outline" className="w-full">
+          Apply
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { BookOpen, Pin, PinOff, Search, Trash2, ExternalLink } from 'lucide-react';
+import { StorageService } from '@/services/StorageService';
+import type { SearchResult } from '@/types/research';
+
+interface ResearchHistoryProps {
+  history: SearchResult[];
+  isLoading?: boolean;
+  onOpen: (result: SearchResult) => void;
+}
+
+export const ResearchHistory = ({ history, isLoading = false, onOpen }: ResearchHistoryProps) => {
+  const [filter, setFilter] = useState('');
+  const { toast } = useToast();
+
+  const normalizedFilter = filter.trim().toLowerCase();
+  const visibleRuns = history
+    .filter(result =>
+      !normalizedFilter ||
+      result.query.toLowerCase().includes(normalizedFilter) ||
+      result.synthesis.toLowerCase().includes(normalizedFilter)
+    )
+    // Pinned runs stay on top; the store already returns newest first
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+
+  const handleTogglePin = async (result: SearchResult) => {
+    try {
+      await StorageService.saveSearchResult({ ...result, pinned: !result.pinned });
+    } catch (error) {
+      console.error('Error updating research run:', error);
+      toast({
+        title: "Error updating research run",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await StorageService.deleteSearchResult(id);
+
+      toast({
+        title: "Research run deleted",
+        description: "The run has been removed from your history",
+      });
+    } catch (error) {
+      console.error('Error deleting research run:', error);
+      toast({
+        title: "Error deleting research run",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="p-8 text-center">
+        <p className="text-muted-foreground">Loading research history...</p>
+      </Card>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <Card className="p-8 text-center">
+        <BookOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No research runs yet</h3>
+        <p className="text-muted-foreground">
+          Completed research runs are saved here so you can reopen them later
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-muted-foreground absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search past research runs..."
+            className="pl-9"
+          />
+        </div>
+        <Badge variant="secondary" className="bg-research-muted">
+          {visibleRuns.length} of {history.length} runs
+        </Badge>
+      </div>
+
+      {visibleRuns.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">
+          No research runs match "{filter}"
+        </Card>
+      ) : (
+        <div className="grid gap-3">
+          {visibleRuns.map((result) => (
+            <Card key={result.id} className="p-4 shadow-card hover:shadow-research transition-shadow">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    {result.pinned && <Pin className="w-4 h-4 text-research-accent flex-shrink-0" />}
+                    <h4 className="font-semibold truncate">{result.query}</h4>
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
+                    {result.synthesis || 'No synthesis was produced for this run'}
+                  </p>
+                  <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                    <span>{result.documents.length} documents analyzed</span>
+                    <span>
+                      {(result.completedAt ?? result.createdAt).toLocaleString()}
+                    </span>
+                    {result.steps.some(step => step.status === 'failed') && (
+                      <Badge variant="destructive" className="text-xs">Failed</Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onOpen(result)}>
+                    <ExternalLink className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleTogglePin(result)}>
+                    {result.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(result.id)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,53 +1,48 @@
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { CheckCircle, Clock, Loader2, FileText, Brain, Lightbulb } from 'lucide-react';
-
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  embedding: number[];
-  metadata: {
-    source: string;
-    uploadedAt: Date;
-    wordCount: number;
-  };
-}
-
-interface ResearchStep {
-  id: string;
-  query: string;
-  status: 'pending' | 'processing' | 'completed';
-  results: any[];
-}
-
-interface SearchResult {
-  query: string;
-  steps: ResearchStep[];
-  documents: Document[];
-  synthesis: string;
-  completedAt?: Date;
-}
+import { Ban, CheckCircle, Clock, Loader2, FileText, Brain, Filter, Lightbulb, X, XCircle } from 'lucide-react';
+import { describeFilters } from '@/services/DocumentFilters';
+import type { HitScores, QueryConstraint, ResearchStep, SearchResult } from '@/types/research';
 
 interface ResearchResultsProps {
   results: SearchResult[];
+  availableDocumentIds?: Set<string>;
+  // Shown next to the progress bar while a run is in progress
+  onCancel?: () => void;
+  // Makes the filters read from the query removable; removing one reruns the query without it
+  onRemoveConstraint?: (result: SearchResult, constraint: QueryConstraint) => void;
 }
 
-export const ResearchResults = ({ results }: ResearchResultsProps) => {
+// Each signal's score and rank, to show why a hit ranked where it did
+const formatScores = (scores: HitScores) =>
+  [
+    scores.semantic !== undefined && `semantic ${scores.semantic.toFixed(2)} #${scores.semanticRank}`,
+    scores.keyword !== undefined && `BM25 ${scores.keyword.toFixed(2)} #${scores.keywordRank}`,
+    scores.rerank !== undefined && `rerank ${scores.rerank.toFixed(2)} #${scores.rankBefore}→#${scores.rankAfter}`
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const ResearchResults = ({ results, availableDocumentIds, onCancel, onRemoveConstraint }: ResearchResultsProps) => {
   const getStepIcon = (status: ResearchStep['status']) => {
     switch (status) {
       case 'completed':
         return <CheckCircle className="w-4 h-4 text-research-accent" />;
       case 'processing':
         return <Loader2 className="w-4 h-4 text-research-secondary animate-spin" />;
+      case 'failed':
+        return <XCircle className="w-4 h-4 text-destructive" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-muted-foreground" />;
       default:
         return <Clock className="w-4 h-4 text-muted-foreground" />;
     }
   };
 
   const getOverallProgress = (steps: ResearchStep[]) => {
-    const completedSteps = steps.filter(step => step.status === 'completed').length;
+    const completedSteps = steps.filter(step => step.status !== 'pending' && step.status !== 'processing').length;
     return (completedSteps / steps.length) * 100;
   };
 
@@ -66,7 +61,7 @@ export const ResearchResults = ({ results }: ResearchResultsProps) => {
   return (
     <div className="space-y-6">
       {results.map((result, index) => (
-        <Card key={index} className="p-6 shadow-research">
+        <Card key={result.id} className="p-6 shadow-research">
           <div className="space-y-6">
             {/* Query Header */}
             <div className="flex items-start justify-between">
@@ -76,10 +71,40 @@ export const ResearchResults = ({ results }: ResearchResultsProps) => {
                 </h3>
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                   <span>{result.documents.length} documents analyzed</span>
+                  {result.options && <span className="capitalize">{result.options.mode} retrieval</span>}
                   {result.completedAt && (
                     <span>Completed at {result.completedAt.toLocaleTimeString()}</span>
                   )}
                 </div>
+                {(result.filters || result.constraints) && (
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <Filter className="w-3 h-3 text-muted-foreground" />
+                    {describeFilters(result.filters).map(label => (
+                      <Badge key={label} variant="outline" className="text-xs font-normal">
+                        {label}
+                      </Badge>
+                    ))}
+                    {result.constraints?.map(constraint => (
+                      <Badge
+                        key={constraint.id}
+                        variant="secondary"
+                        className="text-xs font-normal gap-1"
+                        title={`From "${constraint.phrase}" in the query`}
+                      >
+                        {constraint.label}
+                        {onRemoveConstraint && (
+                          <button
+                            type="button"
+                            aria-label={`Remove filter ${constraint.label}`}
+                            onClick={() => onRemoveConstraint(result, constraint)}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
               <Badge variant="secondary" className="bg-research-muted">
                 Research #{results.length - index}
@@ -92,7 +117,14 @@ export const ResearchResults = ({ results }: ResearchResultsProps) => {
                 <span className="font-medium">Multi-Step Reasoning Progress</span>
                 <span>{Math.round(getOverallProgress(result.steps))}%</span>
               </div>
-              <Progress value={getOverallProgress(result.steps)} className="w-full" />
+              <div className="flex items-center gap-2">
+                <Progress value={getOverallProgress(result.steps)} className="w-full" />
+                {onCancel && (
+                  <Button variant="outline" size="sm" onClick={onCancel}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
             </div>
 
             {/* Research Steps */}
@@ -104,24 +136,48 @@ export const ResearchResults = ({ results }: ResearchResultsProps) => {
                 {result.steps.map((step, stepIndex) => (
                   <div
                     key={step.id}
-                    className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
+                    className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${
                       step.status === 'completed' 
                         ? 'bg-research-accent/5 border-research-accent/20' 
                         : step.status === 'processing'
                         ? 'bg-research-secondary/5 border-research-secondary/20'
+                        : step.status === 'failed'
+                        ? 'bg-destructive/5 border-destructive/20'
                         : 'bg-muted/50 border-border'
                     }`}
                   >
-                    <div className="flex-shrink-0">
+                    <div className="flex-shrink-0 mt-0.5">
                       {getStepIcon(step.status)}
                     </div>
-                    <div className="flex-1">
+                    <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium">{step.query}</p>
                       {step.status === 'completed' && (
                         <p className="text-xs text-muted-foreground mt-1">
-                          Step {stepIndex + 1} completed successfully
+                          {step.detail ?? `Step ${stepIndex + 1} completed successfully`}
+                        </p>
+                      )}
+                      {step.status === 'failed' && (
+                        <p className="text-xs text-destructive mt-1">
+                          Step {stepIndex + 1} failed{step.detail ? `: ${step.detail}` : ''}
+                        </p>
+                      )}
+                      {step.status === 'cancelled' && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {step.detail ?? `Step ${stepIndex + 1} was cancelled`}
                         </p>
                       )}
+                      {step.results.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {step.results.map((hit, hitIndex) => (
+                            <li key={`${hit.documentId}-${hitIndex}`} className="text-xs text-muted-foreground truncate">
+                              <span className="font-medium text-foreground">{hit.title}</span>
+                              {' '}({Math.round(hit.similarity * 100)}%)
+                              {hit.scores && <span className="text-research-secondary"> [{formatScores(hit.scores)}]</span>}
+                              {' '}— {hit.excerpt}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -144,9 +200,15 @@ export const ResearchResults = ({ results }: ResearchResultsProps) => {
                           {doc.metadata.wordCount.toLocaleString()} words
                         </p>
                       </div>
-                      <Badge variant="outline" className="text-xs">
-                        Relevant
-                      </Badge>
+                      {availableDocumentIds && !availableDocumentIds.has(doc.id) ? (
+                        <Badge variant="outline" className="text-xs text-muted-foreground">
+                          Source deleted
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">
+                          Relevant
+                        </Badge>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -163,7 +225,7 @@ export const ResearchResults = ({ results }: ResearchResultsProps) => {
                   </h4>
                 </div>
                 <Card className="p-4 bg-gradient-subtle border-research-accent/20">
-                  <p className="text-sm leading-relaxed">{result.synthesis}</p>
+                  <p className="text-sm leading-relaxed whitespace-pre-line">{result.synthesis}</p>
                 </Card>
               </div>
             )}
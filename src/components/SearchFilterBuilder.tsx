@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge, badgeVariants } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Filter, X } from 'lucide-react';
+import { filterDocuments, getFilterFacets, hasActiveFilters } from '@/services/DocumentFilters';
+import type { Document, SearchFilters } from '@/types/research';
+
+type FacetKey = 'Sources' | 'FileTypes' | 'Tags';
+type FacetState = 'include' | 'exclude' | undefined;
+
+const FACETS: { key: FacetKey; label: string; facet: 'sources' | 'fileTypes' | 'tags' }[] = [
+  { key: 'Sources', label: 'Sources', facet: 'sources' },
+  { key: 'FileTypes', label: 'File types', facet: 'fileTypes' },
+  { key: 'Tags', label: 'Tags', facet: 'tags' }
+];
+
+// <input type="date"> works in local calendar days
+const toDateInput = (date?: Date) =>
+  date
+    ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+    : '';
+
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`) : undefined;
+
+const parseWords = (value: string) => (value === '' ? undefined : Math.max(0, Math.floor(Number(value)) || 0));
+
+const withoutEmpty = (values: string[]) => (values.length > 0 ? values : undefined);
+
+interface SearchFilterBuilderProps {
+  documents: Document[];
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  disabled?: boolean;
+}
+
+export const SearchFilterBuilder = ({ documents, filters, onChange, disabled }: SearchFilterBuilderProps) => {
+  const [open, setOpen] = useState(false);
+  const facets = useMemo(() => getFilterFacets(documents), [documents]);
+  const matching = filterDocuments(documents, filters).length;
+  const active = hasActiveFilters(filters);
+
+  const getState = (key: FacetKey, value: string): FacetState => {
+    if (filters[`include${key}`]?.includes(value)) return 'include';
+    if (filters[`exclude${key}`]?.includes(value)) return 'exclude';
+    return undefined;
+  };
+
+  // Clicking a value cycles it through include, exclude and back to neither
+  const cycle = (key: FacetKey, value: string) => {
+    const state = getState(key, value);
+    const include = (filters[`include${key}`] ?? []).filter(item => item !== value);
+    const exclude = (filters[`exclude${key}`] ?? []).filter(item => item !== value);
+    if (state === undefined) include.push(value);
+    if (state === 'include') exclude.push(value);
+
+    onChange({ ...filters, [`include${key}`]: withoutEmpty(include), [`exclude${key}`]: withoutEmpty(exclude) });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-3">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            <Filter className="w-4 h-4 mr-2" />
+            Filters
+            {active && <Badge variant="secondary" className="ml-2">{matching} of {documents.length}</Badge>}
+            <ChevronDown className={`w-4 h-4 ml-2 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+        {active && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({})} disabled={disabled}>
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <CollapsibleContent className="space-y-4 rounded-md border p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="filter-uploaded-from">Uploaded from</Label>
+            <Input
+              id="filter-uploaded-from"
+              type="date"
+              className="h-9"
+              value={toDateInput(filters.uploadedFrom)}
+              onChange={(e) => onChange({ ...filters, uploadedFrom: fromDateInput(e.target.value, false) })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="filter-uploaded-to">Uploaded until</Label>
+            <Input
+              id="filter-uploaded-to"
+              type="date"
+              className="h-9"
+              value={toDateInput(filters.uploadedTo)}
+              onChange={(e) => onChange({ ...filters, uploadedTo: fromDateInput(e.target.value, true) })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2 w-32">
+            <Label htmlFor="filter-min-words">Min words</Label>
+            <Input
+              id="filter-min-words"
+              type="number"
+              min={0}
+              className="h-9"
+              value={filters.minWords ?? ''}
+              onChange={(e) => onChange({ ...filters, minWords: parseWords(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2 w-32">
+            <Label htmlFor="filter-max-words">Max words</Label>
+            <Input
+              id="filter-max-words"
+              type="number"
+              min={0}
+              className="h-9"
+              value={filters.maxWords ?? ''}
+              onChange={(e) => onChange({ ...filters, maxWords: parseWords(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        {FACETS.map(({ key, label, facet }) => (
+          <div key={key} className="space-y-2">
+            <Label>{label}</Label>
+            {facets[facet].length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {facet === 'tags' ? 'No documents are tagged yet; add tags in the Documents tab.' : 'No documents yet.'}
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {facets[facet].map(value => {
+                  const state = getState(key, value);
+                  return (
+                    <button
+                      key={value}
+                      type="button"
+                      className={badgeVariants({
+                        variant: state === 'include' ? 'default' : state === 'exclude' ? 'destructive' : 'outline'
+                      })}
+                      onClick={() => cycle(key, value)}
+                      disabled={disabled}
+                    >
+                      {state === 'exclude' ? `not ${value}` : value}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+
+        <p className="text-xs text-muted-foreground">
+          Click a value to require it, again to exclude it, and once more to ignore it.{' '}
+          {matching} of {documents.length} documents match.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -3,21 +3,39 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Search, Loader2, FileText, Settings } from 'lucide-react';
+import { EmbeddingStatusIndicator } from '@/components/EmbeddingStatusIndicator';
+import { SearchFilterBuilder } from '@/components/SearchFilterBuilder';
+import { DEFAULT_SEARCH_OPTIONS } from '@/services/RetrievalService';
+import type { Document, FusionMethod, RetrievalMode, SearchFilters, SearchOptions } from '@/types/research';
+
+const RETRIEVAL_MODES: { id: RetrievalMode; label: string }[] = [
+  { id: 'semantic', label: 'Semantic' },
+  { id: 'keyword', label: 'Keyword' },
+  { id: 'hybrid', label: 'Hybrid' }
+];
 
 interface SearchInterfaceProps {
-  onSearch: (query: string) => void;
+  onSearch: (query: string, options: SearchOptions, filters: SearchFilters) => void;
   isProcessing: boolean;
-  documentCount: number;
+  documents: Document[];
 }
 
-export const SearchInterface = ({ onSearch, isProcessing, documentCount }: SearchInterfaceProps) => {
+export const SearchInterface = ({ onSearch, isProcessing, documents }: SearchInterfaceProps) => {
   const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [filters, setFilters] = useState<SearchFilters>({});
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim() && !isProcessing) {
-      onSearch(query.trim());
+      onSearch(query.trim(), options, filters);
     }
   };
 
@@ -41,7 +59,7 @@ export const SearchInterface = ({ onSearch, isProcessing, documentCount }: Searc
             <FileText className="w-5 h-5 text-research-secondary" />
             <div>
               <p className="text-sm text-muted-foreground">Documents Indexed</p>
-              <p className="text-2xl font-bold text-research-primary">{documentCount}</p>
+              <p className="text-2xl font-bold text-research-primary">{documents.length}</p>
             </div>
           </div>
         </Card>
@@ -49,9 +67,9 @@ export const SearchInterface = ({ onSearch, isProcessing, documentCount }: Searc
         <Card className="p-4 shadow-card">
           <div className="flex items-center gap-3">
             <Settings className="w-5 h-5 text-research-accent" />
-            <div>
+            <div className="flex-1 min-w-0">
               <p className="text-sm text-muted-foreground">Local Embeddings</p>
-              <Badge variant="secondary" className="mt-1">Active</Badge>
+              <EmbeddingStatusIndicator />
             </div>
           </div>
         </Card>
@@ -83,10 +101,111 @@ export const SearchInterface = ({ onSearch, isProcessing, documentCount }: Searc
               disabled={isProcessing}
             />
           </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Retrieval</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={options.mode}
+                onValueChange={(mode) => mode && setOptions({ ...options, mode: mode as RetrievalMode })}
+                disabled={isProcessing}
+              >
+                {RETRIEVAL_MODES.map(mode => (
+                  <ToggleGroupItem key={mode.id} value={mode.id} size="sm">
+                    {mode.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            {options.mode === 'hybrid' && (
+              <div className="space-y-2 w-56">
+                <Label>Fusion</Label>
+                <Select
+                  value={options.fusion}
+                  onValueChange={(fusion) => setOptions({ ...options, fusion: fusion as FusionMethod })}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rrf">Reciprocal rank fusion</SelectItem>
+                    <SelectItem value="weighted">Weighted normalized sum</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {options.mode === 'hybrid' && options.fusion === 'weighted' && (
+              <div className="space-y-3 w-56 pb-2">
+                <Label>
+                  Semantic {Math.round(options.semanticWeight * 100)}% / keyword {Math.round((1 - options.semanticWeight) * 100)}%
+                </Label>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[options.semanticWeight]}
+                  onValueChange={([semanticWeight]) => setOptions({ ...options, semanticWeight })}
+                  disabled={isProcessing}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="search-mmr"
+                checked={options.mmr}
+                onCheckedChange={(mmr) => setOptions({ ...options, mmr })}
+                disabled={isProcessing}
+              />
+              <Label htmlFor="search-mmr">Diversify (MMR)</Label>
+            </div>
+
+            {options.mmr && (
+              <div className="space-y-3 w-56 pb-2">
+                <Label>
+                  λ {options.mmrLambda.toFixed(2)} ({options.mmrLambda >= 0.5 ? 'favor relevance' : 'favor variety'})
+                </Label>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[options.mmrLambda]}
+                  onValueChange={([mmrLambda]) => setOptions({ ...options, mmrLambda })}
+                  disabled={isProcessing}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2 w-36">
+              <Label htmlFor="search-max-per-document">Hits per document</Label>
+              <Input
+                id="search-max-per-document"
+                type="number"
+                min={0}
+                placeholder="No limit"
+                className="h-9"
+                value={options.maxHitsPerDocument || ''}
+                onChange={(e) => setOptions({ ...options, maxHitsPerDocument: Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+                disabled={isProcessing}
+              />
+            </div>
+          </div>
+
+          <SearchFilterBuilder
+            documents={documents}
+            filters={filters}
+            onChange={setFilters}
+            disabled={isProcessing}
+          />
           
           <div className="flex justify-between items-center">
             <p className="text-sm text-muted-foreground">
-              The agent will use multi-step reasoning to analyze your query
+              Phrases like "in the 2023 reports" or "only from the markdown notes" become filters
             </p>
             <Button
               type="submit"
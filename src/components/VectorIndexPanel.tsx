@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Gauge, Network } from 'lucide-react';
+import { useVectorIndex } from '@/hooks/use-vector-index';
+import {
+  VectorIndexService,
+  type RecallMeasurement,
+  type VectorIndexSettings,
+  type VectorSearchMode
+} from '@/services/VectorIndexService';
+import type { Document } from '@/types/research';
+
+interface VectorIndexPanelProps {
+  documents: Document[];
+}
+
+const PARAMETER_FIELDS: { key: 'm' | 'efConstruction' | 'efSearch'; label: string; hint: string }[] = [
+  { key: 'm', label: 'M', hint: 'Links per node; rebuilds the index' },
+  { key: 'efConstruction', label: 'efConstruction', hint: 'Build-time candidates; rebuilds the index' },
+  { key: 'efSearch', label: 'efSearch', hint: 'Query-time candidates; higher recall, slower' }
+];
+
+export const VectorIndexPanel = ({ documents }: VectorIndexPanelProps) => {
+  const { settings, stats } = useVectorIndex();
+  const [draft, setDraft] = useState<VectorIndexSettings>(settings);
+  const [recall, setRecall] = useState<RecallMeasurement | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleApply = async () => {
+    const invalid = PARAMETER_FIELDS.some(({ key }) => !Number.isInteger(draft[key]) || draft[key] < 2);
+    if (invalid) {
+      toast({
+        title: "Invalid index parameters",
+        description: "M, efConstruction and efSearch must be whole numbers of at least 2",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await VectorIndexService.setSettings(draft);
+      await VectorIndexService.sync(documents);
+      setRecall(null);
+      toast({
+        title: "Vector index updated",
+        description: draft.mode === 'hnsw' ? `M ${draft.m}, efSearch ${draft.efSearch}` : "Searching with exact comparison",
+      });
+    } catch (error) {
+      console.error('Error updating vector index:', error);
+      toast({
+        title: "Error updating vector index",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMeasureRecall = async () => {
+    setIsMeasuring(true);
+    try {
+      setRecall(await VectorIndexService.measureRecall(documents));
+    } catch (error) {
+      console.error('Error measuring recall:', error);
+      toast({
+        title: "Error measuring recall",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Network className="w-5 h-5 text-research-accent" />
+            <h3 className="text-lg font-semibold">Vector Index</h3>
+          </div>
+          <Button
+            onClick={handleMeasureRecall}
+            variant="outline"
+            size="sm"
+            disabled={isMeasuring || settings.mode !== 'hnsw' || documents.length === 0}
+          >
+            <Gauge className="w-4 h-4 mr-2" />
+            {isMeasuring ? 'Measuring...' : 'Measure recall'}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.nodes.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">Indexed chunks</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.spaces}</p>
+            <p className="text-xs text-muted-foreground">Embedding spaces</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-research-primary">{stats.maxLevel + 1}</p>
+            <p className="text-xs text-muted-foreground">Layers</p>
+          </div>
+        </div>
+
+        {recall && (
+          <div className="rounded-md bg-muted/50 p-3 text-sm space-y-1">
+            <p>
+              Recall@{recall.k}: <span className="font-medium">{(recall.recall * 100).toFixed(1)}%</span> over{' '}
+              {recall.queries} queries
+            </p>
+            <p className="text-muted-foreground">
+              HNSW {recall.hnswMs.toFixed(2)} ms vs exact {recall.exactMs.toFixed(2)} ms per query
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Search mode</Label>
+          <Select
+            value={draft.mode}
+            onValueChange={(mode) => setDraft({ ...draft, mode: mode as VectorSearchMode })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hnsw">Approximate (HNSW)</SelectItem>
+              <SelectItem value="exact">Exact (compare every chunk)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          {PARAMETER_FIELDS.map(({ key, label, hint }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`vector-index-${key}`}>{label}</Label>
+              <Input
+                id={`vector-index-${key}`}
+                type="number"
+                min={2}
+                value={draft[key]}
+                disabled={draft.mode !== 'hnsw'}
+                onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+              />
+              <p className="text-xs text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleApply} variant="outline" className="w-full">
+          Apply
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,37 @@
+import * as React from "react";
+
+import { StorageService } from "@/services/StorageService";
+import type { Document } from "@/types/research";
+
+export function useDocuments() {
+  const [documents, setDocuments] = React.useState<Document[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let active = true;
+
+    const load = () => {
+      StorageService.loadDocuments()
+        .then((loaded) => {
+          if (active) setDocuments(loaded);
+        })
+        .catch((error) => {
+          console.error("Failed to load documents from local storage:", error);
+        })
+        .finally(() => {
+          if (active) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = StorageService.subscribe((store) => {
+      if (store === "documents") load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { documents, isLoading };
+}
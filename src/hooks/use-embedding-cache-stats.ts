@@ -0,0 +1,16 @@
+import * as React from "react";
+
+import { EmbeddingCacheService, type EmbeddingCacheStats } from "@/services/EmbeddingCacheService";
+
+export function useEmbeddingCacheStats() {
+  const [stats, setStats] = React.useState<EmbeddingCacheStats>(() => EmbeddingCacheService.getStats());
+
+  React.useEffect(() => {
+    const unsubscribe = EmbeddingCacheService.subscribe(setStats);
+    // The entry count lives in storage, so read it once on mount
+    EmbeddingCacheService.refreshStats();
+    return unsubscribe;
+  }, []);
+
+  return stats;
+}
@@ -0,0 +1,14 @@
+import * as React from "react";
+
+import { EmbeddingService } from "@/services/EmbeddingService";
+import type { ProviderConfig } from "@/services/providers/EmbeddingProvider";
+
+export function useEmbeddingProvider() {
+  const [config, setConfig] = React.useState<ProviderConfig>(() => EmbeddingService.getProviderConfig());
+
+  React.useEffect(() => {
+    return EmbeddingService.subscribeToProvider(setConfig);
+  }, []);
+
+  return config;
+}
@@ -0,0 +1,15 @@
+import * as React from "react";
+
+import { EmbeddingService, type EmbeddingStatus } from "@/services/EmbeddingService";
+
+export function useEmbeddingStatus() {
+  const [status, setStatus] = React.useState<EmbeddingStatus>(() => EmbeddingService.getStatus());
+
+  React.useEffect(() => {
+    // Catch transitions that happened between the first render and subscribing
+    setStatus(EmbeddingService.getStatus());
+    return EmbeddingService.subscribeToStatus(setStatus);
+  }, []);
+
+  return status;
+}
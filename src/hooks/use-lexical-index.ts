@@ -0,0 +1,19 @@
+import * as React from "react";
+
+import { LexicalIndexService, type LexicalIndexSettings, type LexicalIndexStats } from "@/services/LexicalIndexService";
+
+export function useLexicalIndex() {
+  const [settings, setSettings] = React.useState<LexicalIndexSettings>(() => LexicalIndexService.getSettings());
+  const [stats, setStats] = React.useState<LexicalIndexStats>(() => LexicalIndexService.getStats());
+
+  React.useEffect(() => {
+    const unsubscribeSettings = LexicalIndexService.subscribeToSettings(setSettings);
+    const unsubscribeStats = LexicalIndexService.subscribeToStats(setStats);
+    return () => {
+      unsubscribeSettings();
+      unsubscribeStats();
+    };
+  }, []);
+
+  return { settings, stats };
+}
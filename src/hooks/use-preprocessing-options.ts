@@ -0,0 +1,14 @@
+import * as React from "react";
+
+import { EmbeddingService } from "@/services/EmbeddingService";
+import type { PreprocessingOptions } from "@/services/TextPreprocessing";
+
+export function usePreprocessingOptions() {
+  const [options, setOptions] = React.useState<PreprocessingOptions>(() => EmbeddingService.getPreprocessing());
+
+  React.useEffect(() => {
+    return EmbeddingService.subscribeToPreprocessing(setOptions);
+  }, []);
+
+  return options;
+}
@@ -0,0 +1,13 @@
+import * as React from "react";
+
+import { RerankService, type RerankSettings } from "@/services/RerankService";
+
+export function useRerankSettings() {
+  const [settings, setSettings] = React.useState<RerankSettings>(() => RerankService.getSettings());
+
+  React.useEffect(() => {
+    return RerankService.subscribe(setSettings);
+  }, []);
+
+  return settings;
+}
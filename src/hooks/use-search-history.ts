@@ -0,0 +1,37 @@
+import * as React from "react";
+
+import { StorageService } from "@/services/StorageService";
+import type { SearchResult } from "@/types/research";
+
+export function useSearchHistory() {
+  const [history, setHistory] = React.useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let active = true;
+
+    const load = () => {
+      StorageService.loadSearchResults()
+        .then((loaded) => {
+          if (active) setHistory(loaded);
+        })
+        .catch((error) => {
+          console.error("Failed to load research history from local storage:", error);
+        })
+        .finally(() => {
+          if (active) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = StorageService.subscribe((store) => {
+      if (store === "searchResults") load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { history, isLoading };
+}
@@ -0,0 +1,19 @@
+import * as React from "react";
+
+import { VectorIndexService, type VectorIndexSettings, type VectorIndexStats } from "@/services/VectorIndexService";
+
+export function useVectorIndex() {
+  const [settings, setSettings] = React.useState<VectorIndexSettings>(() => VectorIndexService.getSettings());
+  const [stats, setStats] = React.useState<VectorIndexStats>(() => VectorIndexService.getStats());
+
+  React.useEffect(() => {
+    const unsubscribeSettings = VectorIndexService.subscribeToSettings(setSettings);
+    const unsubscribeStats = VectorIndexService.subscribeToStats(setStats);
+    return () => {
+      unsubscribeSettings();
+      unsubscribeStats();
+    };
+  }, []);
+
+  return { settings, stats };
+}
@@ -0,0 +1,14 @@
+import * as React from "react";
+
+import { EmbeddingService } from "@/services/EmbeddingService";
+import type { VectorStorageOptions } from "@/services/VectorQuantization";
+
+export function useVectorStorageOptions() {
+  const [options, setOptions] = React.useState<VectorStorageOptions>(() => EmbeddingService.getVectorStorage());
+
+  React.useEffect(() => {
+    return EmbeddingService.subscribeToVectorStorage(setOptions);
+  }, []);
+
+  return options;
+}
@@ -1,83 +1,112 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { SearchInterface } from '@/components/SearchInterface';
 import { DocumentManager } from '@/components/DocumentManager';
 import { ResearchResults } from '@/components/ResearchResults';
+import { ResearchHistory } from '@/components/ResearchHistory';
+import { EmbeddingSettings } from '@/components/EmbeddingSettings';
+import { EmbeddingCachePanel } from '@/components/EmbeddingCachePanel';
+import { VectorIndexPanel } from '@/components/VectorIndexPanel';
+import { LexicalIndexPanel } from '@/components/LexicalIndexPanel';
+import { RerankerSettings } from '@/components/RerankerSettings';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/components/ui/use-toast';
+import { useDocuments } from '@/hooks/use-documents';
+import { useSearchHistory } from '@/hooks/use-search-history';
 import { BookOpen, Search, Database, Brain } from 'lucide-react';
-
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  embedding: number[];
-  metadata: {
-    source: string;
-    uploadedAt: Date;
-    wordCount: number;
-  };
-}
-
-interface ResearchStep {
-  id: string;
-  query: string;
-  status: 'pending' | 'processing' | 'completed';
-  results: any[];
-}
-
-interface SearchResult {
-  query: string;
-  steps: ResearchStep[];
-  documents: Document[];
-  synthesis: string;
-  completedAt?: Date;
-}
+import { isCancelledError } from '@/services/EmbeddingErrors';
+import { LexicalIndexService } from '@/services/LexicalIndexService';
+import { ResearchService } from '@/services/ResearchService';
+import { getRunOptions } from '@/services/RetrievalService';
+import { StorageService } from '@/services/StorageService';
+import { VectorIndexService } from '@/services/VectorIndexService';
+import type { QueryConstraint, SearchFilters, SearchOptions, SearchResult } from '@/types/research';
 
 const Index = () => {
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const { documents, isLoading: isLoadingDocuments } = useDocuments();
+  const { history, isLoading: isLoadingHistory } = useSearchHistory();
+  const [activeResult, setActiveResult] = useState<SearchResult | null>(null);
+  const [activeTab, setActiveTab] = useState('search');
   const [isProcessing, setIsProcessing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
 
-  const handleDocumentsUpdate = (newDocuments: Document[]) => {
-    setDocuments(newDocuments);
-  };
+  const documentIds = new Set(documents.map(doc => doc.id));
 
-  const handleSearch = async (query: string) => {
+  // Keep the indexes in step with the library so searches don't wait on inserts
+  useEffect(() => {
+    // An empty list before the first load would drop the stored graphs
+    if (isLoadingDocuments) return;
+    LexicalIndexService.sync(documents);
+    VectorIndexService.sync(documents).catch(error => {
+      console.error('Error updating vector index:', error);
+    });
+  }, [documents, isLoadingDocuments]);
+
+  const handleSearch = async (
+    query: string,
+    options: SearchOptions,
+    filters: SearchFilters,
+    dismissedConstraints: string[] = []
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
     
     // Create new search result with multi-step reasoning
-    const newResult: SearchResult = {
-      query,
-      steps: [
-        { id: '1', query: `Analyze key concepts in: "${query}"`, status: 'pending', results: [] },
-        { id: '2', query: 'Search for relevant documents', status: 'pending', results: [] },
-        { id: '3', query: 'Extract and rank information', status: 'pending', results: [] },
-        { id: '4', query: 'Synthesize findings', status: 'pending', results: [] }
-      ],
-      documents: [],
-      synthesis: ''
-    };
-    
-    setSearchResults(prev => [newResult, ...prev]);
+    let latestResult = ResearchService.createResult(query, options, filters, dismissedConstraints);
+    setActiveResult(latestResult);
     
-    // Simulate multi-step processing
-    // In a real implementation, this would use the local embeddings and reasoning
-    setTimeout(() => {
-      setSearchResults(prev => 
-        prev.map((result, index) => 
-          index === 0 ? {
-            ...result,
-            steps: result.steps.map((step, stepIndex) => ({
-              ...step,
-              status: stepIndex < 2 ? 'completed' : step.status
-            })),
-            documents: documents.slice(0, 3),
-            synthesis: `Based on the analysis of ${documents.length} documents, I found relevant information related to "${query}". The research indicates multiple perspectives and data points that contribute to a comprehensive understanding of the topic.`
-          } : result
-        )
-      );
+    try {
+      await ResearchService.run(latestResult, documents, (updated) => {
+        latestResult = updated;
+        setActiveResult(updated);
+      }, controller.signal);
+    } catch (error) {
+      // Cancelled runs stay on screen but are not added to the history
+      if (isCancelledError(error)) {
+        toast({
+          title: "Research cancelled",
+          description: "The partial run was not saved to the history",
+        });
+        return;
+      }
+
+      console.error('Error running research:', error);
+      toast({
+        title: "Research failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
-    }, 3000);
+    }
+    
+    // Failed runs are kept too, so the failing step can be inspected later
+    try {
+      await StorageService.saveSearchResult(latestResult);
+    } catch (error) {
+      console.error('Error saving research run:', error);
+    }
+  };
+
+  const handleRemoveConstraint = (result: SearchResult, constraint: QueryConstraint) => {
+    handleSearch(
+      result.query,
+      getRunOptions(result.options),
+      result.filters ?? {},
+      [...(result.dismissedConstraints ?? []), constraint.id]
+    );
+  };
+
+  const handleCancelResearch = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleOpenResult = (result: SearchResult) => {
+    setActiveResult(result);
+    setActiveTab('search');
   };
 
   return (
@@ -102,7 +131,7 @@ const Index = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue="search" className="w-full">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-3 mb-8">
             <TabsTrigger value="search" className="flex items-center gap-2">
               <Search className="w-4 h-4" />
@@ -122,26 +151,40 @@ const Index = () => {
             <SearchInterface 
               onSearch={handleSearch}
               isProcessing={isProcessing}
-              documentCount={documents.length}
+              documents={documents}
             />
             
-            {searchResults.length > 0 && (
+            {activeResult && (
               <div className="space-y-6">
                 <h2 className="text-xl font-semibold text-foreground">Current Research</h2>
-                <ResearchResults results={searchResults.slice(0, 1)} />
+                <ResearchResults
+                  results={[activeResult]}
+                  availableDocumentIds={documentIds}
+                  onCancel={isProcessing ? handleCancelResearch : undefined}
+                  onRemoveConstraint={isProcessing ? undefined : handleRemoveConstraint}
+                />
               </div>
             )}
           </TabsContent>
 
-          <TabsContent value="documents">
+          <TabsContent value="documents" className="space-y-6">
             <DocumentManager 
               documents={documents}
-              onDocumentsUpdate={handleDocumentsUpdate}
+              isLoading={isLoadingDocuments}
             />
+            <EmbeddingSettings />
+            <EmbeddingCachePanel />
+            <VectorIndexPanel documents={documents} />
+            <LexicalIndexPanel documents={documents} />
+            <RerankerSettings />
           </TabsContent>
 
           <TabsContent value="results">
-            <ResearchResults results={searchResults} />
+            <ResearchHistory
+              history={history}
+              isLoading={isLoadingHistory}
+              onOpen={handleOpenResult}
+            />
           </TabsContent>
         </Tabs>
       </main>
@@ -0,0 +1,108 @@
+// Okapi BM25 over an inverted index of analyzed terms. Entries can be added
+// and removed one at a time; collection statistics are kept up to date.
+
+export interface Bm25Parameters {
+  // Term frequency saturation; higher lets repeated terms keep adding score
+  k1: number;
+  // Length normalization, from 0 (none) to 1 (full)
+  b: number;
+}
+
+export const DEFAULT_BM25_PARAMETERS: Bm25Parameters = { k1: 1.2, b: 0.75 };
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+}
+
+type Analyzer = (text: string) => string[];
+
+export class Bm25Index {
+  // term -> entry id -> term frequency
+  private postings = new Map<string, Map<string, number>>();
+  // entry id -> distinct terms, so removal only visits its own postings
+  private entryTerms = new Map<string, string[]>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(
+    private readonly analyze: Analyzer,
+    private readonly parameters: Bm25Parameters
+  ) {}
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  get vocabularySize(): number {
+    return this.postings.size;
+  }
+
+  has(id: string): boolean {
+    return this.lengths.has(id);
+  }
+
+  ids(): IterableIterator<string> {
+    return this.lengths.keys();
+  }
+
+  add(id: string, text: string) {
+    if (this.has(id)) this.remove(id);
+
+    const terms = this.analyze(text);
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+
+    for (const [term, frequency] of frequencies) {
+      const posting = this.postings.get(term) ?? new Map<string, number>();
+      posting.set(id, frequency);
+      this.postings.set(term, posting);
+    }
+    this.entryTerms.set(id, Array.from(frequencies.keys()));
+    this.lengths.set(id, terms.length);
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): boolean {
+    const terms = this.entryTerms.get(id);
+    if (!terms) return false;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= this.lengths.get(id)!;
+    this.entryTerms.delete(id);
+    this.lengths.delete(id);
+    return true;
+  }
+
+  // Best k entries sharing at least one term with the query, highest score
+  // first. Entries rejected by include are skipped before the cut to k.
+  search(query: string, k: number, include?: (id: string) => boolean): Bm25Match[] {
+    if (this.size === 0 || k <= 0) return [];
+
+    const { k1, b } = this.parameters;
+    const averageLength = this.totalLength / this.size || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(this.analyze(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      // The +1 keeps idf positive for terms in more than half the entries
+      const idf = Math.log(1 + (this.size - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (include && !include(id)) continue;
+        const lengthRatio = this.lengths.get(id)! / averageLength;
+        const weight = (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthRatio));
+        scores.set(id, (scores.get(id) ?? 0) + idf * weight);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((left, right) => right.score - left.score)
+      .slice(0, k);
+  }
+}
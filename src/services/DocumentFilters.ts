@@ -0,0 +1,91 @@
+import type { Document, SearchFilters } from '@/types/research';
+
+export interface FilterFacets {
+  sources: string[];
+  fileTypes: string[];
+  tags: string[];
+}
+
+const NO_FILE_TYPE = 'none';
+
+// Extension of the uploaded file's name, lowercase without the dot
+export const getFileType = (document: Pick<Document, 'metadata'>): string => {
+  const match = /\.([^./\\]+)$/.exec(document.metadata.source);
+  return match ? match[1].toLowerCase() : NO_FILE_TYPE;
+};
+
+const normalize = (values: string[] | undefined) => values?.map(value => value.toLowerCase()) ?? [];
+
+const isSet = (values: unknown[] | undefined) => !!values && values.length > 0;
+
+export const hasActiveFilters = (filters: SearchFilters | undefined): boolean =>
+  !!filters &&
+  (!!filters.uploadedFrom ||
+    !!filters.uploadedTo ||
+    isSet(filters.includeSources) ||
+    isSet(filters.excludeSources) ||
+    isSet(filters.includeFileTypes) ||
+    isSet(filters.excludeFileTypes) ||
+    filters.minWords !== undefined ||
+    filters.maxWords !== undefined ||
+    isSet(filters.includeTags) ||
+    isSet(filters.excludeTags));
+
+export const matchesFilters = (document: Document, filters: SearchFilters): boolean => {
+  const { uploadedAt, wordCount } = document.metadata;
+  if (filters.uploadedFrom && uploadedAt < filters.uploadedFrom) return false;
+  if (filters.uploadedTo && uploadedAt > filters.uploadedTo) return false;
+  if (filters.minWords !== undefined && wordCount < filters.minWords) return false;
+  if (filters.maxWords !== undefined && wordCount > filters.maxWords) return false;
+
+  const source = document.metadata.source.toLowerCase();
+  if (isSet(filters.includeSources) && !normalize(filters.includeSources).includes(source)) return false;
+  if (normalize(filters.excludeSources).includes(source)) return false;
+
+  const fileType = getFileType(document);
+  if (isSet(filters.includeFileTypes) && !normalize(filters.includeFileTypes).includes(fileType)) return false;
+  if (normalize(filters.excludeFileTypes).includes(fileType)) return false;
+
+  const tags = normalize(document.metadata.tags);
+  if (isSet(filters.includeTags) && !normalize(filters.includeTags).some(tag => tags.includes(tag))) return false;
+  if (normalize(filters.excludeTags).some(tag => tags.includes(tag))) return false;
+
+  return true;
+};
+
+// Documents passing every given set of filters
+export const filterDocuments = (documents: Document[], ...filterSets: (SearchFilters | undefined)[]): Document[] => {
+  const active = filterSets.filter(hasActiveFilters) as SearchFilters[];
+  return active.length > 0
+    ? documents.filter(document => active.every(filters => matchesFilters(document, filters)))
+    : documents;
+};
+
+// Distinct values present in the library, for building filters
+export const getFilterFacets = (documents: Document[]): FilterFacets => {
+  const sorted = (values: Iterable<string>) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+  return {
+    sources: sorted(documents.map(document => document.metadata.source)),
+    fileTypes: sorted(documents.map(getFileType)),
+    tags: sorted(documents.flatMap(document => document.metadata.tags ?? []))
+  };
+};
+
+// One short label per active condition, e.g. "type: md" or "not tag: draft"
+export const describeFilters = (filters: SearchFilters | undefined): string[] => {
+  if (!filters) return [];
+  const list = (prefix: string, values: string[] | undefined) => (isSet(values) ? [`${prefix}: ${values!.join(', ')}`] : []);
+
+  return [
+    ...(filters.uploadedFrom ? [`from ${filters.uploadedFrom.toLocaleDateString()}`] : []),
+    ...(filters.uploadedTo ? [`until ${filters.uploadedTo.toLocaleDateString()}`] : []),
+    ...list('source', filters.includeSources),
+    ...list('not source', filters.excludeSources),
+    ...list('type', filters.includeFileTypes),
+    ...list('not type', filters.excludeFileTypes),
+    ...(filters.minWords !== undefined ? [`≥ ${filters.minWords.toLocaleString()} words`] : []),
+    ...(filters.maxWords !== undefined ? [`≤ ${filters.maxWords.toLocaleString()} words`] : []),
+    ...list('tag', filters.includeTags),
+    ...list('not tag', filters.excludeTags)
+  ];
+};
@@ -0,0 +1,145 @@
+import { StorageService } from '@/services/StorageService';
+
+const SETTINGS_STORAGE_KEY = 'embedding-cache-settings';
+const DEFAULT_MAX_ENTRIES = 20000;
+
+export interface EmbeddingCacheStats {
+  // Counted since the page was loaded
+  hits: number;
+  misses: number;
+  entries: number;
+  maxEntries: number;
+}
+
+// Everything besides the text that determines a vector. Two lookups share an
+// entry only when all of it matches.
+export interface EmbeddingCacheScope {
+  modelId: string;
+  preprocessingVersion: number;
+  preprocessing?: string;
+  prompt?: string;
+}
+
+type StatsListener = (stats: EmbeddingCacheStats) => void;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Persistent, content-addressed store of vectors, so unchanged text is never
+// embedded twice with the same model. Failures are logged and treated as misses:
+// the cache only ever saves work, it never blocks embedding.
+class EmbeddingCacheServiceClass {
+  private static instance: EmbeddingCacheServiceClass;
+  private hits = 0;
+  private misses = 0;
+  private entries = 0;
+  private maxEntries = this.loadMaxEntries();
+  private listeners = new Set<StatsListener>();
+
+  private constructor() {}
+
+  static getInstance(): EmbeddingCacheServiceClass {
+    if (!EmbeddingCacheServiceClass.instance) {
+      EmbeddingCacheServiceClass.instance = new EmbeddingCacheServiceClass();
+    }
+    return EmbeddingCacheServiceClass.instance;
+  }
+
+  // SHA-256 over the scope and the text
+  async getKeys(texts: string[], scope: EmbeddingCacheScope): Promise<string[]> {
+    const encoder = new TextEncoder();
+    const prefix = JSON.stringify([scope.modelId, scope.preprocessingVersion, scope.preprocessing ?? '', scope.prompt ?? '']);
+
+    return Promise.all(texts.map(async text => {
+      const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${prefix}\n${text}`));
+      return toHex(digest);
+    }));
+  }
+
+  async lookup(keys: string[]): Promise<(number[] | undefined)[]> {
+    let cached: (number[] | undefined)[];
+    try {
+      cached = await StorageService.getCachedEmbeddings(keys);
+    } catch (error) {
+      console.warn('Embedding cache lookup failed:', error);
+      cached = keys.map(() => undefined);
+    }
+
+    const hits = cached.filter(Boolean).length;
+    this.hits += hits;
+    this.misses += keys.length - hits;
+    this.notify();
+    return cached;
+  }
+
+  async store(keys: string[], embeddings: number[][]): Promise<void> {
+    if (keys.length === 0 || this.maxEntries === 0) return;
+
+    try {
+      await StorageService.putCachedEmbeddings(keys.map((key, i) => ({ key, embedding: embeddings[i] })));
+      await StorageService.evictCachedEmbeddings(this.maxEntries);
+      this.entries = await StorageService.countCachedEmbeddings();
+      this.notify();
+    } catch (error) {
+      console.warn('Embedding cache write failed:', error);
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    return { hits: this.hits, misses: this.misses, entries: this.entries, maxEntries: this.maxEntries };
+  }
+
+  // Reads the current entry count from storage
+  async refreshStats(): Promise<EmbeddingCacheStats> {
+    try {
+      this.entries = await StorageService.countCachedEmbeddings();
+      this.notify();
+    } catch (error) {
+      console.warn('Could not read embedding cache size:', error);
+    }
+    return this.getStats();
+  }
+
+  subscribe(listener: StatsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Evicts least recently used entries right away when the limit shrinks
+  async setMaxEntries(maxEntries: number): Promise<void> {
+    this.maxEntries = Math.max(0, Math.floor(maxEntries));
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ maxEntries: this.maxEntries }));
+
+    await StorageService.evictCachedEmbeddings(this.maxEntries);
+    await this.refreshStats();
+  }
+
+  async clear(): Promise<void> {
+    await StorageService.clearEmbeddingCache();
+    this.hits = 0;
+    this.misses = 0;
+    this.entries = 0;
+    this.notify();
+  }
+
+  private loadMaxEntries(): number {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      const maxEntries = stored ? (JSON.parse(stored) as { maxEntries?: number }).maxEntries : undefined;
+      return typeof maxEntries === 'number' ? maxEntries : DEFAULT_MAX_ENTRIES;
+    } catch (error) {
+      console.warn('Ignoring unreadable embedding cache settings:', error);
+      return DEFAULT_MAX_ENTRIES;
+    }
+  }
+
+  private notify() {
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+}
+
+// Export singleton instance
+export const EmbeddingCacheService = EmbeddingCacheServiceClass.getInstance();
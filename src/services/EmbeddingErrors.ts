@@ -0,0 +1,83 @@
+export type EmbeddingErrorCode =
+  | 'model-load-failed'
+  | 'model-files-missing'
+  | 'out-of-memory'
+  | 'input-too-long'
+  | 'cancelled'
+  | 'inference-failed';
+
+export class EmbeddingError extends Error {
+  readonly code: EmbeddingErrorCode;
+  // Whether trying the same request again can reasonably succeed
+  readonly retryable: boolean;
+
+  constructor(code: EmbeddingErrorCode, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'EmbeddingError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export class ModelLoadError extends EmbeddingError {
+  constructor(message = 'Failed to initialize local embedding model') {
+    super('model-load-failed', message, true);
+    this.name = 'ModelLoadError';
+  }
+}
+
+export class ModelFilesMissingError extends EmbeddingError {
+  constructor(message = 'Required model files are missing') {
+    super('model-files-missing', message, false);
+    this.name = 'ModelFilesMissingError';
+  }
+}
+
+export class OutOfMemoryError extends EmbeddingError {
+  constructor(message = 'Ran out of memory while generating embeddings') {
+    super('out-of-memory', message, true);
+    this.name = 'OutOfMemoryError';
+  }
+}
+
+export class InputTooLongError extends EmbeddingError {
+  constructor(message = 'Input text is too long to embed') {
+    super('input-too-long', message, false);
+    this.name = 'InputTooLongError';
+  }
+}
+
+export class EmbeddingCancelledError extends EmbeddingError {
+  constructor(message = 'Embedding request was cancelled') {
+    super('cancelled', message, false);
+    this.name = 'EmbeddingCancelledError';
+  }
+}
+
+export class InferenceError extends EmbeddingError {
+  constructor(message = 'Embedding inference failed') {
+    super('inference-failed', message, true);
+    this.name = 'InferenceError';
+  }
+}
+
+// Rebuilds a typed error from a code sent across the worker boundary
+export const createEmbeddingError = (code: EmbeddingErrorCode, message: string): EmbeddingError => {
+  switch (code) {
+    case 'model-load-failed':
+      return new ModelLoadError(message);
+    case 'model-files-missing':
+      return new ModelFilesMissingError(message);
+    case 'out-of-memory':
+      return new OutOfMemoryError(message);
+    case 'input-too-long':
+      return new InputTooLongError(message);
+    case 'cancelled':
+      return new EmbeddingCancelledError(message);
+    default:
+      return new InferenceError(message);
+  }
+};
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof EmbeddingError && error.code === 'cancelled';
@@ -1,9 +1,167 @@
-import { pipeline } from '@huggingface/transformers';
+import {
+  EmbeddingCancelledError,
+  EmbeddingError,
+  InferenceError,
+  createEmbeddingError
+} from '@/services/EmbeddingErrors';
+import { PREPROCESSING_VERSION, getDocumentPrompt, getModelId, type EmbeddingSpace } from '@/services/EmbeddingSpace';
+import { EmbeddingCacheService, type EmbeddingCacheScope } from '@/services/EmbeddingCacheService';
+import {
+  DEFAULT_VECTOR_STORAGE,
+  compactSimilarity,
+  createQueryEncoder,
+  type CompactVector,
+  type VectorStorageOptions
+} from '@/services/VectorQuantization';
+import { getPromptTemplates } from '@/services/providers/ModelRegistry';
+import {
+  DEFAULT_PREPROCESSING,
+  getPreprocessingKey,
+  type PreprocessingOptions
+} from '@/services/TextPreprocessing';
+import { DEFAULT_PROVIDER_CONFIG } from '@/services/providers/ProviderRegistry';
+import type {
+  BenchmarkResult,
+  ModelFileCheck,
+  ProviderConfig,
+  ProviderLoadEvent,
+  RerankerConfig,
+  TransformersConfig
+} from '@/services/providers/EmbeddingProvider';
+import type { BatchOptions, EmbeddingRequest, EmbeddingResponse } from '@/workers/embeddingProtocol';
 
+// Half the worker's input limit, leaving room for cleaning to lengthen text
+export const MAX_CHUNK_CHARS = 4000;
+// Scripts written without spaces between words
+const UNSPACED_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+interface ChunkUnit {
+  start: number;
+  end: number;
+}
+
+// Whitespace-separated words, with unspaced-script runs broken into single
+// characters and anything longer than MAX_CHUNK_CHARS into pieces of that size
+const splitChunkUnits = (text: string): ChunkUnit[] => {
+  const units: ChunkUnit[] = [];
+  const pushPieces = (start: number, end: number) => {
+    for (let pieceStart = start; pieceStart < end; pieceStart += MAX_CHUNK_CHARS) {
+      units.push({ start: pieceStart, end: Math.min(pieceStart + MAX_CHUNK_CHARS, end) });
+    }
+  };
+
+  for (const word of text.matchAll(/\S+/g)) {
+    const wordStart = word.index ?? 0;
+    if (!UNSPACED_CHARACTER.test(word[0])) {
+      pushPieces(wordStart, wordStart + word[0].length);
+      continue;
+    }
+
+    let runStart = wordStart;
+    let offset = wordStart;
+    for (const character of word[0]) {
+      if (UNSPACED_CHARACTER.test(character)) {
+        pushPieces(runStart, offset);
+        units.push({ start: offset, end: offset + character.length });
+        runStart = offset + character.length;
+      }
+      offset += character.length;
+    }
+    pushPieces(runStart, offset);
+  }
+  return units;
+};
+
+const PROVIDER_STORAGE_KEY = 'embedding-provider-config';
+const PREPROCESSING_STORAGE_KEY = 'embedding-preprocessing-options';
+const VECTOR_STORAGE_KEY = 'embedding-vector-storage-options';
+
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Called once per batch with the number of texts embedded so far
+export type EmbeddingProgressHandler = (completed: number, total: number) => void;
+
+export interface EmbedOptions {
+  // Template with a {text} placeholder; embedQuery and embedDocument pick it from the model registry
+  prompt?: string;
+  // Aborting rejects with EmbeddingCancelledError and stops the worker at its next batch
+  signal?: AbortSignal;
+}
+
+export interface GenerateEmbeddingsOptions extends BatchOptions, EmbedOptions {
+  onProgress?: EmbeddingProgressHandler;
+}
+
+// Distributes Omit over the request union so each variant keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type RequestPayload = DistributiveOmit<EmbeddingRequest, 'id'>;
+
+// Settles with the promise, or rejects as soon as the signal aborts
+const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new EmbeddingCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new EmbeddingCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Observable lifecycle of the embedding provider, from first use to ready
+export type EmbeddingStatus =
+  | { state: 'idle' }
+  | { state: 'loading' }
+  | { state: 'downloading'; file: string; loadedBytes: number; totalBytes: number; percent: number }
+  | { state: 'compiling' }
+  | { state: 'ready'; device: string }
+  | { state: 'failed'; message: string };
+
+type ProviderChangeListener = (config: ProviderConfig) => void;
+type StatusListener = (status: EmbeddingStatus) => void;
+type PreprocessingListener = (options: PreprocessingOptions) => void;
+type VectorStorageListener = (options: VectorStorageOptions) => void;
+
+interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+}
+
+interface RequestHandlers {
+  onProgress?: EmbeddingProgressHandler;
+  onLoading?: (event: ProviderLoadEvent) => void;
+}
+
+interface RequestOptions extends RequestHandlers {
+  signal?: AbortSignal;
+}
+
+interface PendingRequest extends RequestHandlers {
+  resolve: (response: EmbeddingResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// Thin proxy over the embedding worker: the model and inference live off the
+// main thread, while cheap vector math and chunking stay here.
 class EmbeddingServiceClass {
   private static instance: EmbeddingServiceClass;
-  private extractor: any = null;
-  private isInitialized = false;
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private initPromise: Promise<void> | null = null;
+  private retryPolicy: RetryPolicy = { retries: 3, baseDelayMs: 500 };
+  private providerConfig: ProviderConfig = this.loadProviderConfig();
+  private providerListeners = new Set<ProviderChangeListener>();
+  private preprocessing: PreprocessingOptions = this.loadPreprocessing();
+  private preprocessingListeners = new Set<PreprocessingListener>();
+  private vectorStorage: VectorStorageOptions = this.loadVectorStorage();
+  private vectorStorageListeners = new Set<VectorStorageListener>();
+  private status: EmbeddingStatus = { state: 'idle' };
+  private statusListeners = new Set<StatusListener>();
 
   private constructor() {}
 
@@ -15,86 +173,226 @@ class EmbeddingServiceClass {
   }
 
   async initialize() {
-    if (this.isInitialized) return;
-
-    try {
-      console.log('Initializing local embedding model...');
-      
-      // Use a lightweight, fast embedding model suitable for browser use
-      this.extractor = await pipeline(
-        'feature-extraction',
-        'mixedbread-ai/mxbai-embed-xsmall-v1',
-        { 
-          device: 'webgpu',
-          dtype: 'fp32'
+    if (!this.initPromise) {
+      this.setStatus({ state: 'loading' });
+      this.initPromise = this.request({ type: 'init', config: this.providerConfig }, {
+        onLoading: (event) => {
+          this.setStatus(event.stage === 'downloading'
+            ? {
+                state: 'downloading',
+                file: event.file,
+                loadedBytes: event.loadedBytes,
+                totalBytes: event.totalBytes,
+                percent: event.totalBytes > 0 ? (event.loadedBytes / event.totalBytes) * 100 : 0
+              }
+            : { state: 'compiling' });
         }
-      );
-      
-      this.isInitialized = true;
-      console.log('Embedding model initialized successfully');
-    } catch (error) {
-      console.warn('WebGPU not available, falling back to CPU:', error);
-      
-      try {
-        // Fallback to CPU if WebGPU is not available
-        this.extractor = await pipeline(
-          'feature-extraction',
-          'mixedbread-ai/mxbai-embed-xsmall-v1',
-          { device: 'cpu' }
-        );
-        
-        this.isInitialized = true;
-        console.log('Embedding model initialized on CPU');
-      } catch (cpuError) {
-        console.error('Failed to initialize embedding model:', cpuError);
-        throw new Error('Failed to initialize local embedding model');
-      }
+      })
+        .then(response => {
+          if (response.type === 'ready') {
+            console.log(`Embedding provider ${this.providerConfig.provider} ready on ${response.device}`);
+            this.setStatus({ state: 'ready', device: response.device });
+          }
+        })
+        .catch(error => {
+          this.initPromise = null;
+          this.setStatus({ state: 'failed', message: error instanceof Error ? error.message : String(error) });
+          throw error;
+        });
     }
+    return this.initPromise;
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.isInitialized) {
-      await this.initialize();
+  getStatus(): EmbeddingStatus {
+    return this.status;
+  }
+
+  subscribeToStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getProviderConfig(): ProviderConfig {
+    return this.providerConfig;
+  }
+
+  getModelId(): string {
+    return getModelId(this.providerConfig);
+  }
+
+  // Tags vectors produced by the current provider
+  getSpace(dimensions: number): EmbeddingSpace {
+    const documentPrompt = getDocumentPrompt(this.providerConfig);
+    const preprocessing = getPreprocessingKey(this.preprocessing);
+    return {
+      modelId: this.getModelId(),
+      dimensions,
+      preprocessingVersion: PREPROCESSING_VERSION,
+      ...(documentPrompt ? { documentPrompt } : {}),
+      ...(preprocessing ? { preprocessing } : {}),
+      ...(this.vectorStorage.truncateTo ? { truncatedTo: this.vectorStorage.truncateTo } : {})
+    };
+  }
+
+  getPreprocessing(): PreprocessingOptions {
+    return this.preprocessing;
+  }
+
+  subscribeToPreprocessing(listener: PreprocessingListener): () => void {
+    this.preprocessingListeners.add(listener);
+    return () => {
+      this.preprocessingListeners.delete(listener);
+    };
+  }
+
+  getVectorStorage(): VectorStorageOptions {
+    return this.vectorStorage;
+  }
+
+  subscribeToVectorStorage(listener: VectorStorageListener): () => void {
+    this.vectorStorageListeners.add(listener);
+    return () => {
+      this.vectorStorageListeners.delete(listener);
+    };
+  }
+
+  // Truncation moves vectors into another space, so it marks documents stale;
+  // a new format applies to documents as they are next embedded
+  setVectorStorage(options: VectorStorageOptions) {
+    this.vectorStorage = options;
+    localStorage.setItem(VECTOR_STORAGE_KEY, JSON.stringify(options));
+    this.vectorStorageListeners.forEach(listener => listener(options));
+  }
+
+  // Applies to every later request, queries included. Stripping options move
+  // vectors, so documents embedded with other settings show up as stale.
+  setPreprocessing(options: PreprocessingOptions) {
+    this.preprocessing = options;
+    localStorage.setItem(PREPROCESSING_STORAGE_KEY, JSON.stringify(options));
+    this.preprocessingListeners.forEach(listener => listener(options));
+  }
+
+  subscribeToProvider(listener: ProviderChangeListener): () => void {
+    this.providerListeners.add(listener);
+    return () => {
+      this.providerListeners.delete(listener);
+    };
+  }
+
+  // Switches the embedding backend. Vectors from the previous provider live in
+  // a different space, so documents need their embeddings regenerated.
+  // The config is only saved once it loads, so a bad URL or model ID stays in
+  // this session for correcting but the next page load uses the last one that worked
+  async setProviderConfig(config: ProviderConfig) {
+    this.providerConfig = config;
+    // transformers.js keeps its runtime settings in worker globals, so a fresh
+    // worker is the only clean way to switch between online and offline loading
+    this.resetWorker(new EmbeddingCancelledError('Embedding provider was changed'));
+    this.providerListeners.forEach(listener => listener(config));
+    await this.initialize();
+    // Another change may have replaced this one while it loaded
+    if (this.providerConfig === config) {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
     }
+  }
 
+  // Lists the files a provider config needs and which of them cannot be found
+  async checkModelFiles(config: ProviderConfig = this.providerConfig): Promise<ModelFileCheck> {
+    const response = await this.request({ type: 'checkModelFiles', config });
+    if (response.type !== 'modelFiles') {
+      throw new InferenceError(`Unexpected embedding worker response: ${response.type}`);
+    }
+    return { required: response.required, missing: response.missing };
+  }
+
+  // Runs in a throwaway worker, so the benchmark's models and transformers.js
+  // settings never disturb the active provider
+  async runBenchmark(
+    config: TransformersConfig,
+    onLoading?: (event: ProviderLoadEvent) => void
+  ): Promise<BenchmarkResult> {
+    const worker = this.createWorker();
     try {
-      // Clean and truncate text for better processing
-      const cleanText = this.preprocessText(text);
-      
-      // Generate embedding
-      const result = await this.extractor(cleanText, {
-        pooling: 'mean',
-        normalize: true
+      return await new Promise<BenchmarkResult>((resolve, reject) => {
+        worker.addEventListener('message', (event: MessageEvent<EmbeddingResponse>) => {
+          const response = event.data;
+          if (response.type === 'loading') onLoading?.(response.event);
+          else if (response.type === 'benchmark') resolve(response.result);
+          else if (response.type === 'error') reject(createEmbeddingError(response.code, response.message));
+        });
+        worker.addEventListener('error', (event) => {
+          reject(new InferenceError(event.message || 'Benchmark worker crashed'));
+        });
+        const request: EmbeddingRequest = { type: 'benchmark', id: 0, config };
+        worker.postMessage(request);
       });
-      
-      // Convert tensor to array
-      const embedding = Array.from(result.data as Float32Array);
-      
-      console.log(`Generated embedding for text (${cleanText.length} chars): ${embedding.length} dimensions`);
-      return embedding;
-      
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      // Return a dummy embedding in case of error (in production, you'd handle this differently)
-      return new Array(384).fill(0).map(() => Math.random() * 2 - 1);
+    } finally {
+      worker.terminate();
     }
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    if (!this.isInitialized) {
-      await this.initialize();
-    }
+  // Cross-encoder relevance of each passage to the query, from 0 to 1. The
+  // reranker shares the embedding worker and loads on first use.
+  async rerank(
+    config: RerankerConfig,
+    query: string,
+    passages: string[],
+    options: { signal?: AbortSignal; onLoading?: (event: ProviderLoadEvent) => void } = {}
+  ): Promise<number[]> {
+    if (passages.length === 0) return [];
 
-    const embeddings: number[][] = [];
-    
-    for (const text of texts) {
-      const embedding = await this.generateEmbedding(text);
-      embeddings.push(embedding);
+    const response = await this.request({ type: 'rerank', config, query, passages }, options);
+    if (response.type !== 'rerankScores') {
+      throw new InferenceError(`Unexpected embedding worker response: ${response.type}`);
     }
-    
+    return response.scores;
+  }
+
+  // Retrieval models are asymmetric: queries and documents take different prompts
+  async embedQuery(text: string, options: Omit<EmbedOptions, 'prompt'> = {}): Promise<number[]> {
+    return this.generateEmbedding(text, { ...options, prompt: getPromptTemplates(this.providerConfig).query });
+  }
+
+  async embedDocument(text: string, options: Omit<EmbedOptions, 'prompt'> = {}): Promise<number[]> {
+    return this.generateEmbedding(text, { ...options, prompt: getPromptTemplates(this.providerConfig).document });
+  }
+
+  async embedDocuments(texts: string[], options: Omit<GenerateEmbeddingsOptions, 'prompt'> = {}): Promise<number[][]> {
+    return this.generateEmbeddings(texts, { ...options, prompt: getPromptTemplates(this.providerConfig).document });
+  }
+
+  async generateEmbedding(text: string, options: EmbedOptions = {}): Promise<number[]> {
+    const { prompt, signal } = options;
+    const [embedding] = await this.withCache([text], prompt, async ([uncached]) => [
+      await this.embedUncached(uncached, prompt, signal)
+    ]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[], options: GenerateEmbeddingsOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const { onProgress, prompt, signal, ...batchOptions } = options;
+    const embeddings = await this.withCache(texts, prompt, (uncached, cachedCount) => {
+      // Cached texts count as done from the start
+      onProgress?.(cachedCount, texts.length);
+      return this.embedBatchUncached(uncached, prompt, signal, batchOptions, (completed) => {
+        onProgress?.(cachedCount + completed, texts.length);
+      });
+    });
+    onProgress?.(texts.length, texts.length);
     return embeddings;
   }
 
+  // Asks the worker to stop every in-flight request; their promises reject
+  cancelAll() {
+    for (const id of this.pending.keys()) {
+      this.getWorker().postMessage({ type: 'cancel', id } satisfies EmbeddingRequest);
+    }
+  }
+
   calculateSimilarity(embedding1: number[], embedding2: number[]): number {
     if (embedding1.length !== embedding2.length) {
       throw new Error('Embeddings must have the same dimension');
@@ -114,15 +412,17 @@ class EmbeddingServiceClass {
     return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
   }
 
-  findSimilarDocuments(
-    queryEmbedding: number[],
-    documentEmbeddings: { id: string; embedding: number[]; metadata: any }[],
+  // Scores compact vectors in their own format; the query is encoded to match each one
+  findSimilarDocuments<T extends { embedding: CompactVector }>(
+    queryEmbedding: Float32Array,
+    documentEmbeddings: T[],
     threshold: number = 0.5,
     limit: number = 5
   ) {
+    const encodeQuery = createQueryEncoder(queryEmbedding);
     const similarities = documentEmbeddings.map(doc => ({
       ...doc,
-      similarity: this.calculateSimilarity(queryEmbedding, doc.embedding)
+      similarity: compactSimilarity(encodeQuery(doc.embedding.format), doc.embedding)
     }));
 
     return similarities
@@ -131,29 +431,254 @@ class EmbeddingServiceClass {
       .slice(0, limit);
   }
 
-  private preprocessText(text: string): string {
-    // Clean and truncate text for better processing
-    const cleaned = text
-      .replace(/\s+/g, ' ')  // Normalize whitespace
-      .replace(/[^\w\s.,!?-]/g, '')  // Remove special characters
-      .trim();
-    
-    // Truncate to reasonable length (most models have token limits)
-    return cleaned.slice(0, 4000);
-  }
+  // Chunk long documents for better embedding quality. Sizes are in words,
+  // where each character of a script written without spaces (Chinese,
+  // Japanese, Thai) counts as one, so such text is cut into fixed character
+  // windows. No chunk is longer than MAX_CHUNK_CHARS: runs without whitespace
+  // beyond it, such as minified JSON or base64, are split. Offsets point back
+  // into the original text so chunks can be quoted verbatim.
+  chunkText(text: string, chunkSize: number = 500, overlap: number = 50): TextChunk[] {
+    const units = splitChunkUnits(text);
+    const chunks: TextChunk[] = [];
+
+    for (let i = 0; i < units.length; ) {
+      const start = units[i].start;
+      let next = i + 1;
+      while (next < units.length && next - i < chunkSize && units[next].end - start <= MAX_CHUNK_CHARS) next++;
+
+      const end = units[next - 1].end;
+      chunks.push({ text: text.slice(start, end), start, end });
 
-  // Chunk long documents for better embedding quality
-  chunkText(text: string, chunkSize: number = 500, overlap: number = 50): string[] {
-    const words = text.split(/\s+/);
-    const chunks: string[] = [];
-    
-    for (let i = 0; i < words.length; i += chunkSize - overlap) {
-      const chunk = words.slice(i, i + chunkSize).join(' ');
-      chunks.push(chunk);
+      // The final window already reaches the end of the text
+      if (next >= units.length) break;
+      // Step back by the overlap, but always move forward
+      i = Math.max(next - overlap, i + 1);
     }
-    
+
     return chunks;
   }
+
+  private loadProviderConfig(): ProviderConfig {
+    try {
+      const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+      return stored ? JSON.parse(stored) as ProviderConfig : DEFAULT_PROVIDER_CONFIG;
+    } catch (error) {
+      console.warn('Ignoring unreadable embedding provider settings:', error);
+      return DEFAULT_PROVIDER_CONFIG;
+    }
+  }
+
+  private loadPreprocessing(): PreprocessingOptions {
+    try {
+      const stored = localStorage.getItem(PREPROCESSING_STORAGE_KEY);
+      return stored ? { ...DEFAULT_PREPROCESSING, ...JSON.parse(stored) as Partial<PreprocessingOptions> } : DEFAULT_PREPROCESSING;
+    } catch (error) {
+      console.warn('Ignoring unreadable preprocessing settings:', error);
+      return DEFAULT_PREPROCESSING;
+    }
+  }
+
+  private async embedUncached(text: string, prompt?: string, signal?: AbortSignal): Promise<number[]> {
+    return this.withRetry(async () => {
+      await raceAbort(this.initialize(), signal);
+
+      const response = await this.request(
+        { type: 'embed', text, prompt, preprocessing: this.preprocessing },
+        { signal }
+      );
+      if (response.type !== 'embedding') {
+        throw new InferenceError(`Unexpected embedding worker response: ${response.type}`);
+      }
+      return response.embedding;
+    }, undefined, signal);
+  }
+
+  private async embedBatchUncached(
+    texts: string[],
+    prompt: string | undefined,
+    signal: AbortSignal | undefined,
+    batchOptions: BatchOptions,
+    onProgress?: EmbeddingProgressHandler
+  ): Promise<number[][]> {
+    let { batchSize, maxBatchTokens } = batchOptions;
+
+    return this.withRetry(async () => {
+      await raceAbort(this.initialize(), signal);
+
+      const response = await this.request(
+        { type: 'embedBatch', texts, options: { batchSize, maxBatchTokens }, prompt, preprocessing: this.preprocessing },
+        { onProgress, signal }
+      );
+      if (response.type !== 'embeddings') {
+        throw new InferenceError(`Unexpected embedding worker response: ${response.type}`);
+      }
+      return response.embeddings;
+    }, (error) => {
+      // Smaller batches need less activation memory, so shrink them before retrying
+      if (error.code === 'out-of-memory') {
+        batchSize = Math.max(1, Math.floor((batchSize ?? 16) / 2));
+        maxBatchTokens = Math.max(512, Math.floor((maxBatchTokens ?? 8192) / 2));
+        console.warn(`Retrying with batch size ${batchSize} after running out of memory`);
+      }
+    }, signal);
+  }
+
+  // The cache key covers everything that moves a vector apart from the text itself
+  private getCacheScope(prompt?: string): EmbeddingCacheScope {
+    return {
+      modelId: this.getModelId(),
+      preprocessingVersion: PREPROCESSING_VERSION,
+      preprocessing: getPreprocessingKey(this.preprocessing),
+      prompt
+    };
+  }
+
+  // Serves what it can from the embedding cache and embeds only the rest,
+  // which are then added to the cache. Results keep the input order.
+  private async withCache(
+    texts: string[],
+    prompt: string | undefined,
+    embed: (uncached: string[], cachedCount: number) => Promise<number[][]>
+  ): Promise<number[][]> {
+    let keys: string[];
+    try {
+      keys = await EmbeddingCacheService.getKeys(texts, this.getCacheScope(prompt));
+    } catch (error) {
+      // crypto.subtle only exists in secure contexts
+      console.warn('Embedding cache unavailable:', error);
+      return embed(texts, 0);
+    }
+
+    const results = await EmbeddingCacheService.lookup(keys);
+    const missing = results.flatMap((embedding, index) => (embedding ? [] : [index]));
+    if (missing.length === 0) return results as number[][];
+
+    const embeddings = await embed(missing.map(index => texts[index]), texts.length - missing.length);
+    await EmbeddingCacheService.store(missing.map(index => keys[index]), embeddings);
+    missing.forEach((index, i) => {
+      results[index] = embeddings[i];
+    });
+    return results as number[][];
+  }
+
+  private loadVectorStorage(): VectorStorageOptions {
+    try {
+      const stored = localStorage.getItem(VECTOR_STORAGE_KEY);
+      return stored ? { ...DEFAULT_VECTOR_STORAGE, ...JSON.parse(stored) as Partial<VectorStorageOptions> } : DEFAULT_VECTOR_STORAGE;
+    } catch (error) {
+      console.warn('Ignoring unreadable vector storage settings:', error);
+      return DEFAULT_VECTOR_STORAGE;
+    }
+  }
+
+  // Retries retryable embedding errors with exponential backoff and jitter
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    beforeRetry?: (error: EmbeddingError) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { retries, baseDelayMs } = this.retryPolicy;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw new EmbeddingCancelledError();
+
+      try {
+        return await operation();
+      } catch (error) {
+        if (!(error instanceof EmbeddingError) || !error.retryable || attempt >= retries) {
+          throw error;
+        }
+
+        const delay = baseDelayMs * 2 ** attempt * (0.5 + Math.random());
+        console.warn(`Embedding attempt ${attempt + 1} failed (${error.code}), retrying in ${Math.round(delay)}ms`);
+        beforeRetry?.(error);
+        await raceAbort(new Promise(resolve => setTimeout(resolve, delay)), signal);
+      }
+    }
+  }
+
+  private request(payload: RequestPayload, options: RequestOptions = {}): Promise<EmbeddingResponse> {
+    const { signal, ...handlers } = options;
+    if (signal?.aborted) return Promise.reject(new EmbeddingCancelledError());
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      // Rejects right away; the worker stops at its next batch boundary and its late reply is dropped
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        this.worker?.postMessage({ type: 'cancel', id } satisfies EmbeddingRequest);
+        reject(new EmbeddingCancelledError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        ...handlers
+      });
+      this.getWorker().postMessage({ ...payload, id } as EmbeddingRequest);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = this.createWorker();
+      this.worker.addEventListener('message', (event: MessageEvent<EmbeddingResponse>) => this.handleResponse(event.data));
+      this.worker.addEventListener('error', (event) => {
+        console.error('Embedding worker crashed:', event.message);
+        // Start from a fresh worker on the next request
+        this.resetWorker(new InferenceError(event.message || 'Embedding worker crashed'));
+      });
+    }
+    return this.worker;
+  }
+
+  private createWorker(): Worker {
+    return new Worker(new URL('../workers/embedding.worker.ts', import.meta.url), { type: 'module' });
+  }
+
+  private handleResponse(response: EmbeddingResponse) {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    switch (response.type) {
+      case 'progress':
+        request.onProgress?.(response.completed, response.total);
+        return;
+      case 'loading':
+        request.onLoading?.(response.event);
+        return;
+      case 'error':
+        request.reject(createEmbeddingError(response.code, response.message));
+        break;
+      case 'cancelled':
+        request.reject(new EmbeddingCancelledError());
+        break;
+      default:
+        request.resolve(response);
+    }
+    this.pending.delete(response.id);
+  }
+
+  private resetWorker(reason: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.initPromise = null;
+    this.pending.forEach(request => request.reject(reason));
+    this.pending.clear();
+    this.setStatus({ state: 'idle' });
+  }
+
+  private setStatus(status: EmbeddingStatus) {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,69 @@
+import type { ProviderConfig } from '@/services/providers/EmbeddingProvider';
+import { TEXT_PLACEHOLDER, getPromptTemplates } from '@/services/providers/ModelRegistry';
+import { getPreprocessingKey, type PreprocessingOptions } from '@/services/TextPreprocessing';
+
+// Bump whenever text preprocessing changes in a way that moves vectors, so
+// documents embedded with the old pipeline are reported as stale
+export const PREPROCESSING_VERSION = 2;
+
+// Vectors are only comparable when all fields match
+export interface EmbeddingSpace {
+  modelId: string;
+  dimensions: number;
+  preprocessingVersion: number;
+  // Template documents were embedded with; absent when they were embedded as is.
+  // The query prompt is deliberately not part of the space: it only affects
+  // query vectors, which are never stored, so changing it keeps documents valid.
+  documentPrompt?: string;
+  // Optional preprocessing steps that were switched on; absent for the defaults
+  preprocessing?: string;
+  // Matryoshka truncation setting the vectors were produced with; absent for full length
+  truncatedTo?: number;
+}
+
+export const getModelId = (config: ProviderConfig): string => {
+  switch (config.provider) {
+    // dtype and device are left out: they perturb vectors slightly (see the benchmark's
+    // agreement score) without moving them into another space, so switching needs no re-embed
+    case 'transformers':
+      return `transformers:${config.modelId}`;
+    case 'hashing':
+      return `hashing:${config.dimensions}`;
+    case 'openai-compatible':
+      return `openai-compatible:${config.model}@${config.baseUrl.replace(/\/+$/, '')}`;
+  }
+};
+
+// Absent for models whose documents take no prompt, so their spaces match vectors stored before prompts existed
+export const getDocumentPrompt = (config: ProviderConfig): string | undefined => {
+  const { document } = getPromptTemplates(config);
+  return document === TEXT_PLACEHOLDER ? undefined : document;
+};
+
+export const getSpaceKey = (space: EmbeddingSpace): string =>
+  [
+    space.modelId,
+    space.dimensions,
+    `v${space.preprocessingVersion}`,
+    space.documentPrompt ?? '',
+    space.preprocessing ?? '',
+    space.truncatedTo ?? ''
+  ].join('|');
+
+export const isSameSpace = (a: EmbeddingSpace | undefined, b: EmbeddingSpace | undefined): boolean =>
+  !!a && !!b && getSpaceKey(a) === getSpaceKey(b);
+
+// Dimensions are fixed by the model, so a vector is stale as soon as the model,
+// preprocessing or document prompt differ, before a query vector is even available to compare with
+export const isStaleSpace = (
+  space: EmbeddingSpace | undefined,
+  config: ProviderConfig,
+  preprocessing: PreprocessingOptions,
+  truncateTo?: number
+): boolean =>
+  !space ||
+  space.modelId !== getModelId(config) ||
+  space.preprocessingVersion !== PREPROCESSING_VERSION ||
+  space.documentPrompt !== getDocumentPrompt(config) ||
+  space.preprocessing !== getPreprocessingKey(preprocessing) ||
+  space.truncatedTo !== truncateTo;
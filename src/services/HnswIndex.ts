@@ -0,0 +1,301 @@
+import { compactSimilarity, createQueryEncoder, type CompactVector } from '@/services/VectorQuantization';
+
+// Hierarchical navigable small world graph (Malkov & Yashunin) over compact
+// vectors. Each node lives on layers 0..level; upper layers are sparse
+// shortcuts, layer 0 links every node to its closest neighbours.
+
+export interface HnswParameters {
+  // Links per node on upper layers; layer 0 allows twice as many
+  m: number;
+  // Candidate list size while inserting; higher builds a better graph, slower
+  efConstruction: number;
+  // Candidate list size while searching; higher raises recall, slower
+  efSearch: number;
+}
+
+export const DEFAULT_HNSW_PARAMETERS: HnswParameters = { m: 16, efConstruction: 200, efSearch: 64 };
+
+// Graph structure only: vectors already live on the chunks and are supplied on load
+export interface SerializedHnsw {
+  m: number;
+  efConstruction: number;
+  ids: string[];
+  levels: number[];
+  // neighbors[node][layer] holds indices into ids
+  neighbors: number[][][];
+}
+
+export interface HnswMatch {
+  id: string;
+  similarity: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: CompactVector;
+  level: number;
+  neighbors: Set<string>[];
+}
+
+interface Scored {
+  node: HnswNode;
+  similarity: number;
+}
+
+type SimilarityTo = (node: HnswNode) => number;
+
+// Inserts into an array kept sorted by similarity, descending
+const insertSorted = (list: Scored[], entry: Scored) => {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].similarity >= entry.similarity) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, entry);
+};
+
+export class HnswIndex {
+  private nodes = new Map<string, HnswNode>();
+  private entryPoint: HnswNode | null = null;
+  private readonly levelMultiplier: number;
+
+  constructor(private readonly parameters: HnswParameters) {
+    this.levelMultiplier = 1 / Math.log(Math.max(parameters.m, 2));
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  get maxLevel(): number {
+    return this.entryPoint?.level ?? -1;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  ids(): IterableIterator<string> {
+    return this.nodes.keys();
+  }
+
+  insert(id: string, vector: CompactVector) {
+    if (this.nodes.has(id)) this.delete(id);
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = { id, vector, level, neighbors: Array.from({ length: level + 1 }, () => new Set<string>()) };
+    this.nodes.set(id, node);
+
+    const entryPoint = this.entryPoint;
+    if (!entryPoint) {
+      this.entryPoint = node;
+      return;
+    }
+
+    const similarityTo: SimilarityTo = (other) => compactSimilarity(vector, other.vector);
+    let entries = [this.descend(similarityTo, entryPoint, level)];
+
+    for (let layer = Math.min(level, entryPoint.level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(similarityTo, entries, this.parameters.efConstruction, layer);
+      for (const { node: neighbor } of candidates.slice(0, this.parameters.m)) {
+        node.neighbors[layer].add(neighbor.id);
+        neighbor.neighbors[layer].add(id);
+        this.prune(neighbor, layer);
+      }
+      entries = candidates.map(candidate => candidate.node);
+    }
+
+    if (level > entryPoint.level) this.entryPoint = node;
+  }
+
+  // Points a node at an equal vector, e.g. after chunks were reloaded from storage
+  replaceVector(id: string, vector: CompactVector) {
+    const node = this.nodes.get(id);
+    if (node) node.vector = vector;
+  }
+
+  // Removes the node and reconnects every node that linked to it
+  delete(id: string): boolean {
+    return this.deleteAll([id]) > 0;
+  }
+
+  // Removes the nodes in one pass over the graph, however many there are,
+  // so dropping a document's chunks costs no more than dropping one
+  deleteAll(ids: Iterable<string>): number {
+    const removed = new Map<string, Set<string>[]>();
+    for (const id of ids) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+      this.nodes.delete(id);
+      removed.set(id, node.neighbors);
+    }
+    if (removed.size === 0) return 0;
+
+    this.unlink(removed);
+    if (this.entryPoint && removed.has(this.entryPoint.id)) {
+      this.entryPoint = null;
+      for (const candidate of this.nodes.values()) {
+        if (!this.entryPoint || candidate.level > this.entryPoint.level) this.entryPoint = candidate;
+      }
+    }
+    return removed.size;
+  }
+
+  search(query: Float32Array, k: number, ef: number = this.parameters.efSearch): HnswMatch[] {
+    if (!this.entryPoint || k <= 0) return [];
+
+    const encodeQuery = createQueryEncoder(query);
+    const similarityTo: SimilarityTo = (node) => compactSimilarity(encodeQuery(node.vector.format), node.vector);
+    const entry = this.descend(similarityTo, this.entryPoint, 0);
+
+    return this.searchLayer(similarityTo, [entry], Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(({ node, similarity }) => ({ id: node.id, similarity }));
+  }
+
+  serialize(): SerializedHnsw {
+    const ids = Array.from(this.nodes.keys());
+    const positions = new Map(ids.map((id, index) => [id, index]));
+
+    return {
+      m: this.parameters.m,
+      efConstruction: this.parameters.efConstruction,
+      ids,
+      levels: ids.map(id => this.nodes.get(id)!.level),
+      neighbors: ids.map(id => this.nodes.get(id)!.neighbors.map(layer => Array.from(layer, neighbor => positions.get(neighbor)!)))
+    };
+  }
+
+  // Nodes without a vector in vectors are dropped and their neighbours reconnected
+  static deserialize(data: SerializedHnsw, vectors: Map<string, CompactVector>, parameters: HnswParameters): HnswIndex {
+    const index = new HnswIndex(parameters);
+    const neighborIds = data.neighbors.map(layers => layers.map(layer => new Set(layer.map(position => data.ids[position]))));
+
+    data.ids.forEach((id, position) => {
+      const vector = vectors.get(id);
+      if (!vector) return;
+      const node: HnswNode = { id, vector, level: data.levels[position], neighbors: neighborIds[position] };
+      index.nodes.set(id, node);
+      if (!index.entryPoint || node.level > index.entryPoint.level) index.entryPoint = node;
+    });
+    const missing = new Map<string, Set<string>[]>();
+    data.ids.forEach((id, position) => {
+      if (!index.nodes.has(id)) missing.set(id, neighborIds[position]);
+    });
+    if (missing.size > 0) index.unlink(missing);
+
+    return index;
+  }
+
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.parameters.m * 2 : this.parameters.m;
+  }
+
+  // Greedy walk from the top layer down to just above targetLayer
+  private descend(similarityTo: SimilarityTo, start: HnswNode, targetLayer: number): HnswNode {
+    let current = start;
+    let currentSimilarity = similarityTo(current);
+
+    for (let layer = start.level; layer > targetLayer; layer--) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (const neighborId of current.neighbors[layer]) {
+          const neighbor = this.nodes.get(neighborId)!;
+          const similarity = similarityTo(neighbor);
+          if (similarity > currentSimilarity) {
+            current = neighbor;
+            currentSimilarity = similarity;
+            improved = true;
+          }
+        }
+      }
+    }
+    return current;
+  }
+
+  // Best-first search on one layer; returns up to ef nodes, most similar first
+  private searchLayer(similarityTo: SimilarityTo, entries: HnswNode[], ef: number, layer: number): Scored[] {
+    const visited = new Set(entries.map(node => node.id));
+    const results: Scored[] = [];
+    // Sorted descending too, so the next node to expand is at the front
+    const candidates: Scored[] = [];
+
+    for (const node of entries) {
+      const entry = { node, similarity: similarityTo(node) };
+      insertSorted(results, entry);
+      insertSorted(candidates, entry);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      if (results.length >= ef && closest.similarity < results[results.length - 1].similarity) break;
+
+      for (const neighborId of closest.node.neighbors[layer] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId)!;
+        const entry = { node: neighbor, similarity: similarityTo(neighbor) };
+        if (results.length < ef || entry.similarity > results[results.length - 1].similarity) {
+          insertSorted(candidates, entry);
+          insertSorted(results, entry);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+
+  // Keeps only the node's closest links on a layer once it has too many
+  private prune(node: HnswNode, layer: number) {
+    const links = node.neighbors[layer];
+    const limit = this.maxNeighbors(layer);
+    if (links.size <= limit) return;
+
+    const kept = Array.from(links, id => this.nodes.get(id)!)
+      .map(neighbor => ({ id: neighbor.id, similarity: compactSimilarity(node.vector, neighbor.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+    node.neighbors[layer] = new Set(kept.map(entry => entry.id));
+  }
+
+  // Links are pruned one way only, so any node may point at a removed one.
+  // Each such node gets its closest replacements from the removed nodes'
+  // neighbours, and from theirs when those were mostly removed as well.
+  private unlink(removed: Map<string, Set<string>[]>) {
+    for (const node of this.nodes.values()) {
+      node.neighbors.forEach((links, layer) => {
+        const lost = Array.from(links).filter(id => removed.has(id));
+        if (lost.length === 0) return;
+        lost.forEach(id => links.delete(id));
+
+        const wanted = this.maxNeighbors(layer) - links.size;
+        const candidates = new Set<string>();
+        let frontier = lost;
+        for (let depth = 0; depth < 2 && candidates.size < wanted; depth++) {
+          const next = new Set<string>();
+          for (const id of frontier) {
+            for (const candidate of removed.get(id)?.[layer] ?? []) {
+              if (this.nodes.has(candidate)) {
+                if (candidate !== node.id && !links.has(candidate)) candidates.add(candidate);
+              } else if (removed.has(candidate)) {
+                next.add(candidate);
+              }
+            }
+          }
+          frontier = Array.from(next);
+        }
+
+        const replacements = Array.from(candidates)
+          .map(candidate => ({ id: candidate, similarity: compactSimilarity(node.vector, this.nodes.get(candidate)!.vector) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, Math.max(0, wanted));
+        replacements.forEach(replacement => links.add(replacement.id));
+      });
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { EmbeddingService } from '@/services/EmbeddingService';
+import { EmbeddingError, isCancelledError } from '@/services/EmbeddingErrors';
+import { detectLanguage } from '@/services/LanguageDetection';
+import { encodeVector, truncateVector } from '@/services/VectorQuantization';
+import type { Document, DocumentChunk } from '@/types/research';
+
+type IndexingProgressHandler = (progress: number) => void;
+
+class IndexingServiceClass {
+  private static instance: IndexingServiceClass;
+
+  // Chunk sizes are in words; 200 words stays well inside the model's token window
+  private chunkSize = 200;
+  private chunkOverlap = 40;
+  private batchSize = 16;
+
+  private constructor() {}
+
+  static getInstance(): IndexingServiceClass {
+    if (!IndexingServiceClass.instance) {
+      IndexingServiceClass.instance = new IndexingServiceClass();
+    }
+    return IndexingServiceClass.instance;
+  }
+
+  // Embedding failures do not throw: the document is returned flagged with
+  // embeddingError so it can be stored and retried. Cancellation still throws.
+  async createDocument(
+    title: string,
+    content: string,
+    onProgress?: IndexingProgressHandler,
+    signal?: AbortSignal
+  ): Promise<Document> {
+    const document: Document = {
+      id: crypto.randomUUID(),
+      title,
+      content,
+      chunks: [],
+      metadata: {
+        source: title,
+        uploadedAt: new Date(),
+        wordCount: content.split(/\s+/).length
+      }
+    };
+    return this.reindexDocument(document, onProgress, signal);
+  }
+
+  // On failure the previous chunks are kept, since they are still valid vectors
+  async reindexDocument(
+    document: Document,
+    onProgress?: IndexingProgressHandler,
+    signal?: AbortSignal
+  ): Promise<Document> {
+    if (EmbeddingService.getPreprocessing().detectLanguage) {
+      document = { ...document, metadata: { ...document.metadata, language: detectLanguage(document.content) } };
+    }
+
+    try {
+      const { embeddingError, ...rest } = document;
+      return {
+        ...rest,
+        chunks: await this.embedChunks(document.content, onProgress, signal)
+      };
+    } catch (error) {
+      if (isCancelledError(error)) throw error;
+
+      console.error(`Error embedding document "${document.title}":`, error);
+      return {
+        ...document,
+        embeddingError: error instanceof EmbeddingError
+          ? { code: error.code, message: error.message }
+          : { code: 'inference-failed', message: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    }
+  }
+
+  private async embedChunks(
+    content: string,
+    onProgress?: IndexingProgressHandler,
+    signal?: AbortSignal
+  ): Promise<DocumentChunk[]> {
+    const textChunks = EmbeddingService.chunkText(content, this.chunkSize, this.chunkOverlap);
+    const embeddings = await EmbeddingService.embedDocuments(textChunks.map(chunk => chunk.text), {
+      batchSize: this.batchSize,
+      signal,
+      onProgress: (completed, total) => onProgress?.(completed / total)
+    });
+
+    // Full vectors stay in the embedding cache; chunks keep only the compact form
+    const { truncateTo, format } = EmbeddingService.getVectorStorage();
+    const vectors = embeddings.map(embedding => truncateVector(embedding, truncateTo));
+    const space = EmbeddingService.getSpace(vectors[0]?.length ?? 0);
+    const chunks: DocumentChunk[] = textChunks.map(({ start, end }, i) => ({
+      id: crypto.randomUUID(),
+      index: i,
+      start,
+      end,
+      embedding: encodeVector(vectors[i], format),
+      space
+    }));
+
+    return chunks;
+  }
+}
+
+// Export singleton instance
+export const IndexingService = IndexingServiceClass.getInstance();
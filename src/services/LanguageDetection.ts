@@ -0,0 +1,90 @@
+// Lightweight per-document language detection: the dominant script decides
+// most languages outright, and Latin-script text is told apart by counting
+// common function words. Good enough for tagging and filtering documents,
+// not for short snippets.
+
+const SAMPLE_CHARS = 5000;
+const MIN_LETTERS = 20;
+
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'zh', pattern: /\p{Script=Han}/gu },
+  { language: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'hi', pattern: /\p{Script=Devanagari}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu },
+  { language: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { language: 'latin', pattern: /\p{Script=Latin}/gu }
+];
+
+const LATIN_FUNCTION_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'with', 'for'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein', 'zu', 'auch'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'une', 'pas', 'pour', 'dans'],
+  es: ['el', 'los', 'las', 'y', 'es', 'que', 'una', 'por', 'con', 'para'],
+  it: ['il', 'che', 'di', 'e', 'non', 'una', 'per', 'sono', 'della', 'con'],
+  pt: ['o', 'os', 'que', 'e', 'não', 'uma', 'com', 'para', 'do', 'da'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'niet', 'dat', 'met', 'zijn']
+};
+
+// Letters used by Ukrainian but not Russian
+const UKRAINIAN_LETTERS = /[іїєґ]/giu;
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  el: 'Greek',
+  hi: 'Hindi',
+  th: 'Thai'
+};
+
+const countMatches = (text: string, pattern: RegExp): number => text.match(pattern)?.length ?? 0;
+
+const detectLatinLanguage = (text: string): string | undefined => {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+
+  let best: string | undefined;
+  let bestScore = 0;
+  for (const [language, functionWords] of Object.entries(LATIN_FUNCTION_WORDS)) {
+    const score = functionWords.reduce((sum, word) => sum + (counts.get(word) ?? 0), 0);
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Returns an ISO 639-1 code, or undefined when the text is too short or unclear
+export const detectLanguage = (text: string): string | undefined => {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const letters = countMatches(sample, /\p{L}/gu);
+  if (letters < MIN_LETTERS) return undefined;
+
+  // Kana marks Japanese even though Japanese text is mostly Han characters
+  const counts = SCRIPTS.map(({ language, pattern }) => ({ language, count: countMatches(sample, pattern) }));
+  const kana = counts[0].count;
+  const dominant = counts.reduce((best, entry) => (entry.count > best.count ? entry : best));
+
+  if (kana > letters * 0.05) return 'ja';
+  if (dominant.count < letters * 0.5) return undefined;
+  if (dominant.language === 'latin') return detectLatinLanguage(sample);
+  if (dominant.language === 'ru' && countMatches(sample, UKRAINIAN_LETTERS) > 0) return 'uk';
+  return dominant.language;
+};
@@ -0,0 +1,135 @@
+import { Bm25Index, DEFAULT_BM25_PARAMETERS, type Bm25Match, type Bm25Parameters } from '@/services/Bm25Index';
+import { createAnalyzer, DEFAULT_ANALYZER, type AnalyzerOptions } from '@/services/TextAnalysis';
+import type { Document } from '@/types/research';
+
+const SETTINGS_STORAGE_KEY = 'lexical-index-settings';
+
+export interface LexicalIndexSettings extends AnalyzerOptions, Bm25Parameters {}
+
+export const DEFAULT_LEXICAL_INDEX_SETTINGS: LexicalIndexSettings = { ...DEFAULT_ANALYZER, ...DEFAULT_BM25_PARAMETERS };
+
+export interface LexicalIndexStats {
+  chunks: number;
+  terms: number;
+}
+
+type SettingsListener = (settings: LexicalIndexSettings) => void;
+type StatsListener = (stats: LexicalIndexStats) => void;
+
+// BM25 index over the same chunks as the vector index. Analyzing text is cheap
+// next to embedding it, so the index lives in memory and is rebuilt from the
+// stored chunks on load; documents are added and removed as they are ingested.
+class LexicalIndexServiceClass {
+  private static instance: LexicalIndexServiceClass;
+  private settings: LexicalIndexSettings = this.loadSettings();
+  private index = this.createIndex();
+  // document id -> ids of its indexed chunks
+  private documentChunks = new Map<string, string[]>();
+  private settingsListeners = new Set<SettingsListener>();
+  private statsListeners = new Set<StatsListener>();
+
+  private constructor() {}
+
+  static getInstance(): LexicalIndexServiceClass {
+    if (!LexicalIndexServiceClass.instance) {
+      LexicalIndexServiceClass.instance = new LexicalIndexServiceClass();
+    }
+    return LexicalIndexServiceClass.instance;
+  }
+
+  getSettings(): LexicalIndexSettings {
+    return this.settings;
+  }
+
+  subscribeToSettings(listener: SettingsListener): () => void {
+    this.settingsListeners.add(listener);
+    return () => {
+      this.settingsListeners.delete(listener);
+    };
+  }
+
+  // Terms depend on every setting, so the index is rebuilt from documents
+  setSettings(settings: LexicalIndexSettings, documents: Document[]) {
+    this.settings = settings;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.settingsListeners.forEach(listener => listener(settings));
+
+    this.index = this.createIndex();
+    this.documentChunks.clear();
+    this.addDocuments(documents);
+  }
+
+  getStats(): LexicalIndexStats {
+    return { chunks: this.index.size, terms: this.index.vocabularySize };
+  }
+
+  subscribeToStats(listener: StatsListener): () => void {
+    this.statsListeners.add(listener);
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  // Adds or replaces the documents' chunks
+  addDocuments(documents: Document[]) {
+    for (const document of documents) {
+      this.removeChunks(document.id);
+      document.chunks.forEach(chunk => this.index.add(chunk.id, document.content.slice(chunk.start, chunk.end)));
+      this.documentChunks.set(document.id, document.chunks.map(chunk => chunk.id));
+    }
+    this.notifyStats();
+  }
+
+  removeDocument(id: string) {
+    this.removeChunks(id);
+    this.notifyStats();
+  }
+
+  // Indexes documents not seen yet and drops ones that are gone, e.g. after a page load
+  sync(documents: Document[]) {
+    const current = new Set(documents.map(document => document.id));
+    Array.from(this.documentChunks.keys())
+      .filter(id => !current.has(id))
+      .forEach(id => this.removeChunks(id));
+
+    // Re-embedded documents keep their id but get new chunk ids
+    this.addDocuments(documents.filter(document => {
+      const indexed = this.documentChunks.get(document.id);
+      return !indexed || indexed.length !== document.chunks.length || document.chunks.some(chunk => !this.index.has(chunk.id));
+    }));
+  }
+
+  // Best k chunks by BM25 score, by chunk id, optionally among a subset of chunks
+  search(query: string, k: number, include?: (chunkId: string) => boolean): Bm25Match[] {
+    return this.index.search(query, k, include);
+  }
+
+  private removeChunks(documentId: string) {
+    this.documentChunks.get(documentId)?.forEach(id => this.index.remove(id));
+    this.documentChunks.delete(documentId);
+  }
+
+  private createIndex(): Bm25Index {
+    return new Bm25Index(createAnalyzer(this.settings), this.settings);
+  }
+
+  private loadSettings(): LexicalIndexSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored
+        ? { ...DEFAULT_LEXICAL_INDEX_SETTINGS, ...JSON.parse(stored) as Partial<LexicalIndexSettings> }
+        : DEFAULT_LEXICAL_INDEX_SETTINGS;
+    } catch (error) {
+      console.warn('Ignoring unreadable lexical index settings:', error);
+      return DEFAULT_LEXICAL_INDEX_SETTINGS;
+    }
+  }
+
+  private notifyStats() {
+    const stats = this.getStats();
+    this.statsListeners.forEach(listener => listener(stats));
+  }
+}
+
+// Export singleton instance
+export const LexicalIndexService = LexicalIndexServiceClass.getInstance();
@@ -0,0 +1,102 @@
+// Porter's (1980) suffix-stripping stemmer for English, in the regular
+// expression form of the reference JavaScript port. Expects a lowercase word.
+
+const consonant = '[^aeiou]';
+const vowel = '[aeiouy]';
+const consonantRun = `${consonant}[^aeiouy]*`;
+const vowelRun = `${vowel}[aeiou]*`;
+
+// m is the number of vowel-consonant sequences in a stem
+const MEASURE_ABOVE_0 = new RegExp(`^(${consonantRun})?${vowelRun}${consonantRun}`);
+const MEASURE_IS_1 = new RegExp(`^(${consonantRun})?${vowelRun}${consonantRun}(${vowelRun})?$`);
+const MEASURE_ABOVE_1 = new RegExp(`^(${consonantRun})?${vowelRun}${consonantRun}${vowelRun}${consonantRun}`);
+const HAS_VOWEL = new RegExp(`^(${consonantRun})?${vowel}`);
+// Consonant-vowel-consonant ending where the last consonant is not w, x or y
+const ENDS_CVC = new RegExp(`^${consonantRun}${vowel}[^aeiouwxy]$`);
+const DOUBLE_CONSONANT = /([^aeiouylsz])\1$/;
+
+const STEP_2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log'
+};
+
+const STEP_3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: ''
+};
+
+const STEP_2 = new RegExp(`^(.+?)(${Object.keys(STEP_2_SUFFIXES).join('|')})$`);
+const STEP_3 = new RegExp(`^(.+?)(${Object.keys(STEP_3_SUFFIXES).join('|')})$`);
+const STEP_4 = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+const STEP_4_ION = /^(.+?)(s|t)(ion)$/;
+
+export const stem = (word: string): string => {
+  if (word.length < 3) return word;
+
+  // A leading y is a consonant; uppercase keeps the vowel patterns from treating it as one
+  const leadingY = word[0] === 'y';
+  let w = leadingY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) w = match[1] + match[2];
+  else if ((match = /^(.+?)([^s])s$/.exec(w))) w = match[1] + match[2];
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_ABOVE_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) w += 'e';
+    else if (DOUBLE_CONSONANT.test(w)) w = w.slice(0, -1);
+    else if (ENDS_CVC.test(w)) w += 'e';
+  }
+
+  // Step 1c: terminal y after a vowel-bearing stem
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) w = `${match[1]}i`;
+
+  // Steps 2 and 3: map double and single suffixes to simpler ones
+  if ((match = STEP_2.exec(w)) && MEASURE_ABOVE_0.test(match[1])) w = match[1] + STEP_2_SUFFIXES[match[2]];
+  if ((match = STEP_3.exec(w)) && MEASURE_ABOVE_0.test(match[1])) w = match[1] + STEP_3_SUFFIXES[match[2]];
+
+  // Step 4: drop remaining suffixes from long enough stems
+  if ((match = STEP_4.exec(w))) {
+    if (MEASURE_ABOVE_1.test(match[1])) w = match[1];
+  } else if ((match = STEP_4_ION.exec(w))) {
+    const stemmed = match[1] + match[2];
+    if (MEASURE_ABOVE_1.test(stemmed)) w = stemmed;
+  }
+
+  // Step 5: tidy a final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const stemmed = match[1];
+    if (MEASURE_ABOVE_1.test(stemmed) || (MEASURE_IS_1.test(stemmed) && !ENDS_CVC.test(stemmed))) w = stemmed;
+  }
+  if (/ll$/.test(w) && MEASURE_ABOVE_1.test(w)) w = w.slice(0, -1);
+
+  return leadingY ? `y${w.slice(1)}` : w;
+};
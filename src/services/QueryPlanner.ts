@@ -0,0 +1,97 @@
+import { ENGLISH_STOPWORDS } from '@/services/TextAnalysis';
+
+// More sub-queries than this make each retrieval step slower than it is useful
+const MAX_SUB_QUERIES = 4;
+
+const QUESTION_WORDS = 'how|what|why|when|where|which|who|whether|does|do|did|is|are|can|should';
+
+const STOPWORDS = new Set([...ENGLISH_STOPWORDS, 'what', 'which', 'who', 'why', 'when', 'where', 'whether', 'should', 'vs']);
+
+// A period after these, or after a single initial, doesn't end the sentence
+const SENTENCE_BREAK = /(?<!\b(?:dr|mr|mrs|ms|prof|st|jr|sr|vs|etc|e\.g|i\.e|cf|approx|no|fig|al|[a-z])\.)(?<=[?.!])\s+(?=\S)/i;
+
+// "; " and ", and how ..." join questions that can be answered separately
+const CLAUSE_BREAK = new RegExp(`\\s*;\\s+|,?\\s+(?:and|but|also|as\\s+well\\s+as)\\s+(?=(?:${QUESTION_WORDS})\\b)`, 'i');
+
+// What follows "compare" or "differences between"; the sides are split at a connector below
+const COMPARISONS = [
+  /\b(?:compare|contrast)(?:\s+and\s+(?:contrast|compare))?\s+(.+)$/i,
+  /\bdifferences?\s+between\s+(.+)$/i
+];
+// Tried in order, each at its last occurrence, so "the approaches to memory
+// safety in Rust and C++" splits at "and" rather than "to"
+const CONNECTORS = [/\s+(?:with|versus|vs\.?)\s+/gi, /\s+and\s+/gi, /\s+(?:to|against)\s+/gi];
+const VERSUS = /\s+(?:vs\.?|versus)\s+/i;
+
+const tidy = (text: string) =>
+  text
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,;:.-]+|[\s,;:-]+$/g, '')
+    .trim();
+
+const countWords = (text: string) => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}+#.'-]*/gu) ?? [];
+  return { total: words.length, content: words.filter(word => !STOPWORDS.has(word)).length };
+};
+
+// A clause like "how was it fixed?" stands on its own, but a compared side
+// worth its own retrieval has mostly words that carry meaning
+const hasContent = (text: string) => countWords(text).content > 0;
+const isSubstantial = (text: string) => {
+  const { total, content } = countWords(text);
+  return content > 0 && content * 2 >= total;
+};
+
+const splitAtLastConnector = (text: string): string[] => {
+  for (const connector of CONNECTORS) {
+    const matches = Array.from(text.matchAll(connector));
+    const last = matches[matches.length - 1];
+    if (last) return [text.slice(0, last.index), text.slice(last.index! + last[0].length)];
+  }
+  return [];
+};
+
+// The sides of "compare A and B", "differences between A and B" or
+// "A vs B vs C", each searched on its own too
+const getComparedSides = (clause: string): string[] => {
+  const text = clause.replace(/[?.!]+$/, '');
+  let sides: string[] = [];
+
+  const comparison = COMPARISONS.map(pattern => pattern.exec(text)).find(Boolean);
+  if (comparison) {
+    sides = splitAtLastConnector(comparison[1]);
+  } else if (VERSUS.test(text)) {
+    sides = text.split(new RegExp(VERSUS, 'gi'));
+    // "Which is faster, Python vs Go": the first side starts after the lead-in
+    sides[0] = sides[0].split(/[,:;]/).pop()!.replace(/^.*?\b(?:is|are)\s+/i, '');
+    sides[sides.length - 1] = sides[sides.length - 1].split(/[,:;]/)[0];
+  }
+
+  sides = sides.map(tidy);
+  return sides.length > 1 && sides.every(isSubstantial) ? sides : [];
+};
+
+// Splits a research question into sub-queries that can each be retrieved on
+// their own. Only clear cues split it: separate sentences, clauses joined by
+// "; " or ", and how ...", and comparisons, whose sides are searched as well
+// as the whole. A question without them comes back as its only sub-query.
+export const decomposeQuery = (query: string, limit: number = MAX_SUB_QUERIES): string[] => {
+  const clauses = query
+    .split(SENTENCE_BREAK)
+    .flatMap(sentence => sentence.split(CLAUSE_BREAK))
+    .map(tidy)
+    .filter(hasContent);
+
+  const seen = new Set<string>();
+  const subQueries = clauses
+    .flatMap(clause => [clause, ...getComparedSides(clause)])
+    .filter(subQuery => {
+      const key = subQuery.toLowerCase().replace(/[?.!]+$/, '');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+
+  return subQueries.length > 1 ? subQueries : [tidy(query) || query];
+};
@@ -0,0 +1,294 @@
+import { getFilterFacets } from '@/services/DocumentFilters';
+import type { Document, QueryConstraint, SearchFilters } from '@/types/research';
+
+export interface QueryUnderstanding {
+  // The query with constraint phrases taken out, for embedding and keyword matching
+  text: string;
+  constraints: QueryConstraint[];
+}
+
+interface RuleContext {
+  now: Date;
+  sources: string[];
+  tags: string[];
+}
+
+type FoundConstraint = Omit<QueryConstraint, 'phrase'>;
+
+interface ConstraintRule {
+  // Global and case-insensitive
+  pattern: RegExp;
+  // A phrase like "the 2022 and 2023 reports" states several constraints
+  read: (match: RegExpMatchArray, context: RuleContext) => FoundConstraint | FoundConstraint[] | null;
+}
+
+const YEAR = '((?:19|20)\\d{2})';
+// "2022 and 2023", "2021, 2022 or 2023"; read back with YEAR_IN_PHRASE
+const YEARS = '((?:19|20)\\d{2}(?:(?:\\s*,\\s*(?:(?:and|or)\\s+)?|\\s+(?:and|or|&)\\s+)(?:19|20)\\d{2})*)\\b';
+const YEAR_IN_PHRASE = /\b(?:19|20)\d{2}\b/g;
+const BOUND = '(?:since|after|before)\\s+(?:19|20)\\d{2}\\b';
+const UPLOADED = '(?:(?:uploaded|added)\\s+)?';
+const DOCUMENT_NOUNS = '(?:reports?|files?|documents?|docs|notes|papers|uploads)';
+// A year only restricts uploads when the query says it is about the documents:
+// "uploaded before 2020" or "reports since 2022". The noun stays in the text.
+const YEAR_CUE = `(?:(?<=\\b${DOCUMENT_NOUNS}\\s+)(?:(?:uploaded|added)\\s+)?|\\b(?:uploaded|added)\\s+)`;
+const DOCUMENT_NOUN = '(?:\\s+(?:files?|documents?|docs))?';
+
+// Words that name a file type, keyed by the extension getFileType reports
+const FILE_TYPE_WORDS: Record<string, string> = {
+  md: 'markdown|md',
+  pdf: 'pdfs?',
+  txt: 'txt|plain[ -]text',
+  docx: 'docx|word(?=\\s+(?:files?|documents?|docs)\\b)',
+  html: 'html',
+  csv: 'csvs?',
+  json: 'json'
+};
+
+const UNITS = ['day', 'week', 'month', 'year'] as const;
+type Unit = typeof UNITS[number];
+
+const startOfYear = (year: number) => new Date(year, 0, 1);
+const endOfYear = (year: number) => new Date(year, 11, 31, 23, 59, 59, 999);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseCount = (text: string) => Number(text.replace(/,/g, ''));
+
+const subtract = (now: Date, amount: number, unit: Unit): Date => {
+  const date = new Date(now);
+  if (unit === 'day') date.setDate(date.getDate() - amount);
+  if (unit === 'week') date.setDate(date.getDate() - amount * 7);
+  if (unit === 'month') date.setMonth(date.getMonth() - amount);
+  if (unit === 'year') date.setFullYear(date.getFullYear() - amount);
+  return date;
+};
+
+// Start of the current calendar day, week (from Monday), month or year
+const startOf = (now: Date, unit: Unit): Date => {
+  switch (unit) {
+    case 'day':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case 'week':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case 'year':
+      return startOfYear(now.getFullYear());
+  }
+};
+
+const fileTypeRules = (): ConstraintRule[] =>
+  Object.entries(FILE_TYPE_WORDS).flatMap(([type, words]): ConstraintRule[] => [
+    {
+      pattern: new RegExp(
+        `\\b(?:excluding|except(?:\\s+for)?|not\\s+(?:in|from)|without|but\\s+not|other\\s+than|ignoring)\\s+(?:the\\s+|any\\s+)?(?:${words})\\b${DOCUMENT_NOUN}`,
+        'gi'
+      ),
+      read: () => ({ id: `not-type:${type}`, label: `not type: ${type}`, filters: { excludeFileTypes: [type] } })
+    },
+    {
+      // Needs a cue around the word, so "convert markdown to PDF" is left alone
+      pattern: new RegExp(
+        `(?:\\b(?:only\\s+(?:(?:in|from|within|among)\\s+)?|(?:in|from|within|among)\\s+)(?:the\\s+|my\\s+|our\\s+)?(?:${words})\\b${DOCUMENT_NOUN}` +
+          `|\\b(?:${words})(?:\\s+(?:files?|documents?|docs)\\b|(?=\\s+(?:notes|reports|papers)\\b)))`,
+        'gi'
+      ),
+      read: () => ({ id: `type:${type}`, label: `type: ${type}`, filters: { includeFileTypes: [type] } })
+    }
+  ]);
+
+// Matched in order, and each match hides its words from the rules after it,
+// so "between 2021 and 2023" is not also read as two single years, nor
+// "over 2000 words" or "report-2023.pdf" as a year
+const getRules = (context: RuleContext): ConstraintRule[] => [
+  // Only names that look like files, so a source called "notes" doesn't swallow the word
+  ...context.sources
+    .filter(source => source.includes('.'))
+    .map((source): ConstraintRule => ({
+      pattern: new RegExp(`(?:\\b(?:in|from)\\s+)?(?<![\\w.])${escapeRegExp(source)}(?![\\w])`, 'gi'),
+      read: () => ({ id: `source:${source.toLowerCase()}`, label: `source: ${source}`, filters: { includeSources: [source] } })
+    })),
+  {
+    pattern: /\b(?:longer\s+than|more\s+than|over|above|at\s+least)\s+(\d[\d,]*)\s+words\b/gi,
+    read: ([phrase, count]) => {
+      const minWords = parseCount(count) + (/^at\s+least/i.test(phrase) ? 0 : 1);
+      return { id: `min-words:${minWords}`, label: `≥ ${minWords.toLocaleString()} words`, filters: { minWords } };
+    }
+  },
+  {
+    pattern: /\b(?:shorter\s+than|fewer\s+than|less\s+than|under|below|at\s+most)\s+(\d[\d,]*)\s+words\b/gi,
+    read: ([phrase, count]) => {
+      const maxWords = Math.max(0, parseCount(count) - (/^at\s+most/i.test(phrase) ? 0 : 1));
+      return { id: `max-words:${maxWords}`, label: `≤ ${maxWords.toLocaleString()} words`, filters: { maxWords } };
+    }
+  },
+  {
+    pattern: new RegExp(`${YEAR_CUE}(?:between|from)\\s+${YEAR}\\s*(?:and|to|-|–)\\s*${YEAR}\\b`, 'gi'),
+    read: ([, from, to]) => {
+      const [first, last] = [Number(from), Number(to)].sort((a, b) => a - b);
+      return {
+        id: `years:${first}-${last}`,
+        label: `uploaded ${first}–${last}`,
+        filters: { uploadedFrom: startOfYear(first), uploadedTo: endOfYear(last) }
+      };
+    }
+  },
+  {
+    // "since 2021", or bounds joined as in "after 2020 and before 2023"
+    pattern: new RegExp(`${YEAR_CUE}${BOUND}(?:,?\\s+(?:and|but)\\s+${UPLOADED}${BOUND})*`, 'gi'),
+    read: ([phrase]) =>
+      Array.from(phrase.matchAll(/\b(since|after|before)\s+(\d{4})\b/gi), ([, word, year]): FoundConstraint => {
+        const bound = word.toLowerCase();
+        if (bound === 'before') {
+          return { id: `before:${year}`, label: `uploaded before ${year}`, filters: { uploadedTo: endOfYear(Number(year) - 1) } };
+        }
+        return {
+          id: `${bound}:${year}`,
+          label: `uploaded ${bound} ${year}`,
+          filters: { uploadedFrom: startOfYear(Number(year) + (bound === 'since' ? 0 : 1)) }
+        };
+      })
+  },
+  {
+    pattern: new RegExp(`\\b${UPLOADED}(?:(?:in|from|during|over)\\s+)?(?:the\\s+)?(?:last|past)\\s+(?:(\\d+)\\s+)?(day|week|month|year)s?\\b`, 'gi'),
+    read: ([, count, unit]) => {
+      const amount = count ? Number(count) : 1;
+      const normalized = unit.toLowerCase() as Unit;
+      if (amount === 0) return null;
+      return {
+        id: `last:${amount}-${normalized}`,
+        label: `uploaded in the last ${amount === 1 ? normalized : `${amount} ${normalized}s`}`,
+        filters: { uploadedFrom: subtract(context.now, amount, normalized) }
+      };
+    }
+  },
+  {
+    pattern: new RegExp(`\\b${UPLOADED}(?:(?:from|during)\\s+)?(?:this|the\\s+current)\\s+(week|month|year)\\b|\\b${UPLOADED}(today)\\b`, 'gi'),
+    read: ([, unit, today]) => {
+      const normalized = (today ? 'day' : unit.toLowerCase()) as Unit;
+      return {
+        id: `this:${normalized}`,
+        label: today ? 'uploaded today' : `uploaded this ${normalized}`,
+        filters: { uploadedFrom: startOf(context.now, normalized) }
+      };
+    }
+  },
+  {
+    // "uploaded in 2023", "docs from 2023", or years naming the documents, as in "the 2022 and 2023 reports"
+    pattern: new RegExp(
+      `${YEAR_CUE}(?:(?:in|from|during)\\s+)?${YEARS}` +
+        `|\\b(?:(?:in|from|during)\\s+)?(?:the\\s+|my\\s+|our\\s+)?${YEARS}(?=\\s+${DOCUMENT_NOUNS}\\b)`,
+      'gi'
+    ),
+    read: ([phrase]) =>
+      Array.from(phrase.matchAll(YEAR_IN_PHRASE), ([year]): FoundConstraint => ({
+        id: `year:${year}`,
+        label: `uploaded in ${year}`,
+        filters: { uploadedFrom: startOfYear(Number(year)), uploadedTo: endOfYear(Number(year)) }
+      }))
+  },
+  ...fileTypeRules(),
+  {
+    pattern: /\bnot\s+tagged\s+(?:with\s+|as\s+)?["']?([\p{L}\p{N}_-]+)["']?/giu,
+    read: ([, tag]) => ({ id: `not-tag:${tag.toLowerCase()}`, label: `not tag: ${tag}`, filters: { excludeTags: [tag] } })
+  },
+  {
+    pattern: /\btagged\s+(?:with\s+|as\s+)?["']?([\p{L}\p{N}_-]+)["']?|(?<![\p{L}\p{N}_])#([\p{L}\p{N}_-]+)/giu,
+    // "#include" is a tag only if some document carries it; "tagged" always names one
+    read: ([, tagged, hashed]) => {
+      const tag = tagged ?? context.tags.find(existing => existing.toLowerCase() === hashed.toLowerCase());
+      if (!tag) return null;
+      return { id: `tag:${tag.toLowerCase()}`, label: `tag: ${tag}`, filters: { includeTags: [tag] } };
+    }
+  }
+];
+
+// Finds the restrictions a query states in words, such as "in the 2023
+// reports" or "only from the markdown notes". Dates refer to when documents
+// were uploaded, the only date documents carry, so years elsewhere in the
+// query, as in "the 2008 financial crisis", are left as search text.
+// Dismissed constraints are still recognized, so their words stay out of other
+// rules, but they are neither applied nor removed from the text.
+export const understandQuery = (
+  query: string,
+  documents: Document[],
+  dismissed: string[] = [],
+  now: Date = new Date()
+): QueryUnderstanding => {
+  const { sources, tags } = getFilterFacets(documents);
+  const context: RuleContext = { now, sources, tags };
+  const blank = (text: string, index: number, length: number) =>
+    text.slice(0, index) + ' '.repeat(length) + text.slice(index + length);
+
+  let masked = query;
+  let text = query;
+  const constraints: QueryConstraint[] = [];
+
+  for (const rule of getRules(context)) {
+    // Blanking keeps offsets, so matches found on the earlier masked text still line up
+    for (const match of Array.from(masked.matchAll(rule.pattern))) {
+      const found = [rule.read(match, context) ?? []].flat();
+      if (found.length === 0) continue;
+
+      masked = blank(masked, match.index!, match[0].length);
+      const applied = found.filter(constraint => !dismissed.includes(constraint.id));
+      if (applied.length === 0) continue;
+
+      text = blank(text, match.index!, match[0].length);
+      for (const constraint of applied) {
+        if (!constraints.some(existing => existing.id === constraint.id)) {
+          constraints.push({ ...constraint, phrase: match[0].trim() });
+        }
+      }
+    }
+  }
+
+  return {
+    text: text.replace(/\s+/g, ' ').replace(/\s+([,.;:?!])/g, '$1').trim(),
+    constraints
+  };
+};
+
+// Constraints of the same kind widen each other, so "the 2022 and 2023
+// reports" covers both years; different kinds all have to hold, so "since 2021"
+// and "before 2023" together leave 2021 and 2022
+export const combineConstraints = (constraints: QueryConstraint[]): SearchFilters | undefined => {
+  if (constraints.length === 0) return undefined;
+  const all = constraints.map(constraint => constraint.filters);
+
+  // The kind is the id up to its value, as in "year" or "min-words"
+  const kinds = new Map<string, SearchFilters[]>();
+  for (const constraint of constraints) {
+    const kind = constraint.id.split(':')[0];
+    kinds.set(kind, [...(kinds.get(kind) ?? []), constraint.filters]);
+  }
+
+  // Widened within a kind, which sets the field on every constraint of that
+  // kind, then narrowed across the kinds that set it
+  const bound = (pick: (filters: SearchFilters) => number | undefined, widen: typeof Math.min, narrow: typeof Math.min) => {
+    const values = Array.from(kinds.values())
+      .map(group => group.map(pick))
+      .filter((group): group is number[] => group.every(value => value !== undefined))
+      .map(group => widen(...group));
+    return values.length > 0 ? narrow(...values) : undefined;
+  };
+  const toDate = (time: number | undefined) => (time === undefined ? undefined : new Date(time));
+  const merge = (pick: (filters: SearchFilters) => string[] | undefined) => {
+    const values = Array.from(new Set(all.flatMap(filters => pick(filters) ?? [])));
+    return values.length > 0 ? values : undefined;
+  };
+
+  return {
+    uploadedFrom: toDate(bound(filters => filters.uploadedFrom?.getTime(), Math.min, Math.max)),
+    uploadedTo: toDate(bound(filters => filters.uploadedTo?.getTime(), Math.max, Math.min)),
+    minWords: bound(filters => filters.minWords, Math.min, Math.max),
+    maxWords: bound(filters => filters.maxWords, Math.max, Math.min),
+    includeSources: merge(filters => filters.includeSources),
+    excludeSources: merge(filters => filters.excludeSources),
+    includeFileTypes: merge(filters => filters.includeFileTypes),
+    excludeFileTypes: merge(filters => filters.excludeFileTypes),
+    includeTags: merge(filters => filters.includeTags),
+    excludeTags: merge(filters => filters.excludeTags)
+  };
+};
@@ -0,0 +1,45 @@
+// Combines ranked result lists from different retrieval signals into one ranking
+
+export interface RankedEntry {
+  id: string;
+  score: number;
+}
+
+// Rank offset from Cormack et al.; damps the lead of top-ranked entries
+const RRF_K = 60;
+
+// Sums 1 / (k + rank) over the lists an entry appears in. Scores are scaled so
+// an entry ranked first by every list scores 1. Raw scores are ignored, so
+// signals on different scales need no calibration.
+export const reciprocalRankFusion = (lists: RankedEntry[][]): Map<string, number> => {
+  const fused = new Map<string, number>();
+  const best = lists.length / (RRF_K + 1);
+
+  for (const list of lists) {
+    list.forEach(({ id }, rank) => {
+      fused.set(id, (fused.get(id) ?? 0) + 1 / (RRF_K + rank + 1) / best);
+    });
+  }
+  return fused;
+};
+
+// Min-max normalizes each list to [0, 1], then sums with the given weights.
+// An entry missing from a list contributes 0 for that signal.
+export const weightedScoreFusion = (lists: RankedEntry[][], weights: number[]): Map<string, number> => {
+  const fused = new Map<string, number>();
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  lists.forEach((list, i) => {
+    if (list.length === 0) return;
+    const scores = list.map(entry => entry.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+
+    for (const { id, score } of list) {
+      // A single entry, or all tied, counts as a full match
+      const normalized = range > 0 ? (score - min) / range : 1;
+      fused.set(id, (fused.get(id) ?? 0) + (weights[i] / totalWeight) * normalized);
+    }
+  });
+  return fused;
+};
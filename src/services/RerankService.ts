@@ -0,0 +1,92 @@
+import { EmbeddingService } from '@/services/EmbeddingService';
+import { RERANKER_MODELS } from '@/services/providers/ModelRegistry';
+import type { RerankerConfig, TransformersDtype } from '@/services/providers/EmbeddingProvider';
+
+const SETTINGS_STORAGE_KEY = 'reranker-settings';
+
+export interface RerankSettings {
+  enabled: boolean;
+  modelId: string;
+  dtype: TransformersDtype;
+  // First-stage candidates the cross-encoder rescores; the rest keep their order below them
+  topN: number;
+}
+
+export const DEFAULT_RERANK_SETTINGS: RerankSettings = {
+  enabled: false,
+  modelId: RERANKER_MODELS[0].modelId,
+  dtype: 'q8',
+  topN: 20
+};
+
+export interface RerankOutcome {
+  // Cross-encoder score for each passage, in input order
+  scores: number[];
+  latencyMs: number;
+}
+
+type SettingsListener = (settings: RerankSettings) => void;
+
+// Optional second retrieval stage: a cross-encoder reads the query together
+// with each candidate passage, which ranks far more precisely than comparing
+// independently computed vectors, at the cost of one forward pass per passage.
+class RerankServiceClass {
+  private static instance: RerankServiceClass;
+  private settings: RerankSettings = this.loadSettings();
+  private listeners = new Set<SettingsListener>();
+
+  private constructor() {}
+
+  static getInstance(): RerankServiceClass {
+    if (!RerankServiceClass.instance) {
+      RerankServiceClass.instance = new RerankServiceClass();
+    }
+    return RerankServiceClass.instance;
+  }
+
+  getSettings(): RerankSettings {
+    return this.settings;
+  }
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setSettings(settings: RerankSettings) {
+    this.settings = settings;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.listeners.forEach(listener => listener(settings));
+  }
+
+  async rerank(query: string, passages: string[], signal?: AbortSignal): Promise<RerankOutcome> {
+    const started = performance.now();
+    const scores = await EmbeddingService.rerank(this.getConfig(), query, passages, { signal });
+    return { scores, latencyMs: performance.now() - started };
+  }
+
+  // Offline embedding setups load the reranker from the same local directories
+  private getConfig(): RerankerConfig {
+    const providerConfig = EmbeddingService.getProviderConfig();
+    return {
+      modelId: this.settings.modelId,
+      dtype: this.settings.dtype,
+      ...(providerConfig.provider === 'transformers' && providerConfig.offline ? { offline: providerConfig.offline } : {})
+    };
+  }
+
+  private loadSettings(): RerankSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored ? { ...DEFAULT_RERANK_SETTINGS, ...JSON.parse(stored) as Partial<RerankSettings> } : DEFAULT_RERANK_SETTINGS;
+    } catch (error) {
+      console.warn('Ignoring unreadable reranker settings:', error);
+      return DEFAULT_RERANK_SETTINGS;
+    }
+  }
+}
+
+// Export singleton instance
+export const RerankService = RerankServiceClass.getInstance();
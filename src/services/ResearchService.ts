@@ -0,0 +1,328 @@
+import { hasActiveFilters } from '@/services/DocumentFilters';
+import { EmbeddingService } from '@/services/EmbeddingService';
+import { EmbeddingCancelledError, isCancelledError } from '@/services/EmbeddingErrors';
+import { decomposeQuery } from '@/services/QueryPlanner';
+import { combineConstraints, understandQuery } from '@/services/QueryUnderstanding';
+import { RerankService } from '@/services/RerankService';
+import { DEFAULT_SEARCH_OPTIONS, getRunOptions, RetrievalService, type RetrievalOptions, type RetrievalResult } from '@/services/RetrievalService';
+import { truncateVector } from '@/services/VectorQuantization';
+import type {
+  Document,
+  ResearchStep,
+  RetrievalHit,
+  SearchFilters,
+  SearchOptions,
+  SearchResult
+} from '@/types/research';
+
+type ResearchUpdateHandler = (result: SearchResult) => void;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'across', 'all', 'an', 'and', 'are', 'as', 'at', 'be', 'between', 'by', 'can', 'did',
+  'do', 'does', 'for', 'from', 'how', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that',
+  'the', 'their', 'them', 'there', 'these', 'this', 'those', 'to', 'was', 'were', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'within'
+]);
+
+class ResearchServiceClass {
+  private static instance: ResearchServiceClass;
+
+  // Retrieval settings for the document search step
+  private similarityThreshold = 0.3;
+  private maxChunks = 20;
+  private maxDocuments = 5;
+  private maxPassages = 8;
+
+  private constructor() {}
+
+  static getInstance(): ResearchServiceClass {
+    if (!ResearchServiceClass.instance) {
+      ResearchServiceClass.instance = new ResearchServiceClass();
+    }
+    return ResearchServiceClass.instance;
+  }
+
+  // dismissedConstraints lists query constraint ids to leave out, when rerunning
+  // a query after the user removed some of them
+  createResult(
+    query: string,
+    options: SearchOptions = DEFAULT_SEARCH_OPTIONS,
+    filters?: SearchFilters,
+    dismissedConstraints: string[] = []
+  ): SearchResult {
+    return {
+      id: crypto.randomUUID(),
+      query,
+      options,
+      filters: hasActiveFilters(filters) ? filters : undefined,
+      dismissedConstraints: dismissedConstraints.length > 0 ? dismissedConstraints : undefined,
+      // The analysis step replaces the single search step once it has planned the sub-queries
+      steps: this.planSteps(query, [query]),
+      documents: [],
+      synthesis: '',
+      createdAt: new Date()
+    };
+  }
+
+  // Runs every step of the research plan against the corpus, reporting each
+  // state transition through onUpdate so the UI can follow along. Aborting the
+  // signal marks the current step cancelled and rejects with EmbeddingCancelledError.
+  async run(
+    initial: SearchResult,
+    documents: Document[],
+    onUpdate: ResearchUpdateHandler,
+    signal?: AbortSignal
+  ): Promise<SearchResult> {
+    let result = initial;
+    let currentStep = 0;
+
+    const update = (patch: Partial<SearchResult>) => {
+      result = { ...result, ...patch };
+      onUpdate(result);
+    };
+
+    const updateStep = (index: number, patch: Partial<ResearchStep>) => {
+      update({
+        steps: result.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...patch } : step))
+      });
+    };
+
+    // Embedding and reranking take the signal themselves; checking before each step covers the rest
+    const startStep = (index: number) => {
+      if (signal?.aborted) throw new EmbeddingCancelledError('Research was cancelled');
+      currentStep = index;
+      updateStep(currentStep, { status: 'processing' });
+    };
+
+    try {
+      // Step 1: pull filter constraints out of the query, then analyze what is
+      // left and plan the sub-queries to search for
+      startStep(0);
+      const options = getRunOptions(initial.options);
+      const understanding = understandQuery(initial.query, documents, initial.dismissedConstraints);
+      // A query that is nothing but constraints still needs something to rank by
+      const searchText = /[\p{L}\p{N}]/u.test(understanding.text) ? understanding.text : initial.query;
+      const subQueries = decomposeQuery(searchText);
+      update({ constraints: understanding.constraints.length > 0 ? understanding.constraints : undefined });
+
+      const keyTerms = this.extractKeyTerms(searchText);
+      updateStep(currentStep, {
+        status: 'completed',
+        detail: (keyTerms.length > 0 ? `Key concepts: ${keyTerms.join(', ')}` : 'No distinctive key concepts found') +
+          (understanding.constraints.length > 0
+            ? `; filters from the query: ${understanding.constraints.map(constraint => constraint.label).join(', ')}`
+            : '') +
+          (subQueries.length > 1 ? `; split into ${subQueries.length} sub-queries` : '')
+      });
+      update({ steps: [result.steps[0], ...this.planSteps(initial.query, subQueries).slice(1)] });
+
+      // Steps 2 to n + 1: embed each sub-query, unless searching by keyword
+      // only, and rank chunks for it by the selected retrieval signals
+      const { truncateTo, rescore } = EmbeddingService.getVectorStorage();
+      const reranker = RerankService.getSettings();
+      const queryFilters = combineConstraints(understanding.constraints);
+      const filtered = !!initial.filters || !!queryFilters;
+      const retrievalOptions: RetrievalOptions = {
+        ...options,
+        threshold: this.similarityThreshold,
+        maxChunks: this.maxChunks,
+        maxDocuments: this.maxDocuments,
+        rescore,
+        rerankTopN: reranker.enabled ? reranker.topN : 0,
+        filters: initial.filters,
+        queryFilters,
+        signal
+      };
+      const retrievals: RetrievalResult[] = [];
+
+      for (const [index, subQuery] of subQueries.entries()) {
+        startStep(1 + index);
+        const queryEmbedding = options.mode === 'keyword'
+          ? undefined
+          : truncateVector(await EmbeddingService.embedQuery(subQuery, { signal }), truncateTo);
+        const retrieval = await RetrievalService.search(
+          {
+            text: subQuery,
+            embedding: queryEmbedding,
+            space: queryEmbedding && EmbeddingService.getSpace(queryEmbedding.length)
+          },
+          documents,
+          retrievalOptions
+        );
+        retrievals.push(retrieval);
+
+        const stepHits = retrieval.documents.flatMap(group => group.hits);
+        updateStep(currentStep, {
+          status: 'completed',
+          results: stepHits,
+          detail: `${stepHits.length} passages from ${retrieval.documents.length} of ${retrieval.searchedDocuments} ` +
+            `${filtered ? `documents matching the filters (${documents.length} in total)` : 'documents'} ` +
+            this.describeRanking(options) +
+            (retrieval.skippedDocuments > 0
+              ? `; ${retrieval.skippedDocuments} skipped with stale embeddings`
+              : '') +
+            (retrieval.rerank
+              ? `; reranked top ${retrieval.rerank.candidates} in ${Math.round(retrieval.rerank.latencyMs)} ms`
+              : '') +
+            (retrieval.rerankError
+              ? `; reranking failed (${retrieval.rerankError}), kept the first-stage order`
+              : '') +
+            this.describeDiversity(options)
+        });
+      }
+
+      const merged = RetrievalService.merge(retrievals, retrievalOptions);
+      const retrieved = merged.documents.map(group => group.document);
+      const chunkHits = merged.documents.flatMap(group => group.hits);
+      update({ documents: retrieved.map(({ id, title, metadata }) => ({ id, title, metadata })) });
+
+      // Step n + 2: pull out the sentences that carry the query's key concepts
+      startStep(1 + subQueries.length);
+      const passages = this.rankPassages(chunkHits, keyTerms);
+      updateStep(currentStep, {
+        status: 'completed',
+        results: passages,
+        detail: subQueries.length > 1
+          ? `${passages.length} passages selected from ${chunkHits.length} merged across ${subQueries.length} sub-queries`
+          : `${passages.length} passages selected`
+      });
+
+      // Step n + 3: synthesize the ranked passages
+      startStep(2 + subQueries.length);
+      const synthesis = this.synthesize(initial.query, documents.length, retrievals[0].searchedDocuments, retrieved, passages);
+      updateStep(currentStep, { status: 'completed' });
+      update({ synthesis, completedAt: new Date() });
+
+      return result;
+    } catch (error) {
+      if (isCancelledError(error)) {
+        updateStep(currentStep, { status: 'cancelled', detail: 'Cancelled before this step finished' });
+        throw error;
+      }
+
+      updateStep(currentStep, {
+        status: 'failed',
+        detail: error instanceof Error ? error.message : 'Unknown error'
+      });
+      update({ completedAt: new Date() });
+      throw error;
+    }
+  }
+
+  // One search step per sub-query between analysis and extraction
+  private planSteps(query: string, subQueries: string[]): ResearchStep[] {
+    const labels = [
+      `Analyze key concepts in: "${query}"`,
+      ...(subQueries.length > 1
+        ? subQueries.map(subQuery => `Search for: "${subQuery}"`)
+        : ['Search for relevant documents']),
+      'Extract and rank information',
+      'Synthesize findings'
+    ];
+    return labels.map((label, index) => ({ id: String(index + 1), query: label, status: 'pending', results: [] }));
+  }
+
+  private describeRanking(options: SearchOptions): string {
+    switch (options.mode) {
+      case 'semantic':
+        return `above ${this.similarityThreshold} similarity`;
+      case 'keyword':
+        return 'matching the query terms';
+      case 'hybrid':
+        return options.fusion === 'rrf'
+          ? 'by reciprocal rank fusion of semantic and keyword ranks'
+          : `by weighted sum of semantic (${options.semanticWeight.toFixed(2)}) and keyword (${(1 - options.semanticWeight).toFixed(2)}) scores`;
+    }
+  }
+
+  private describeDiversity(options: SearchOptions): string {
+    const parts = [
+      options.mmr && `diversified by MMR (λ ${options.mmrLambda.toFixed(2)})`,
+      options.maxHitsPerDocument > 0 && `at most ${options.maxHitsPerDocument} per document`
+    ].filter(Boolean);
+    return parts.length > 0 ? `; ${parts.join(', ')}` : '';
+  }
+
+  private extractKeyTerms(query: string, limit: number = 6): string[] {
+    const terms = this.tokenize(query).filter(term => term.length > 2 && !STOPWORDS.has(term));
+    return Array.from(new Set(terms)).slice(0, limit);
+  }
+
+  private rankPassages(hits: RetrievalHit[], keyTerms: string[]): RetrievalHit[] {
+    const passages: (RetrievalHit & { score: number })[] = [];
+
+    hits.forEach(hit => {
+      const sentences = this.splitSentences(hit.excerpt);
+      const scored = sentences
+        .map(sentence => {
+          const tokens = new Set(this.tokenize(sentence));
+          const overlap = keyTerms.filter(term => tokens.has(term)).length;
+          return { sentence, overlap };
+        })
+        .filter(entry => entry.overlap > 0 || keyTerms.length === 0)
+        .sort((a, b) => b.overlap - a.overlap)
+        .slice(0, 2);
+
+      // Fall back to the opening of the chunk when no sentence mentions a key term
+      if (scored.length === 0 && sentences.length > 0) {
+        scored.push({ sentence: sentences[0], overlap: 0 });
+      }
+
+      for (const entry of scored) {
+        passages.push({
+          ...hit,
+          excerpt: entry.sentence,
+          score: hit.similarity * (1 + entry.overlap / Math.max(keyTerms.length, 1))
+        });
+      }
+    });
+
+    return passages
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxPassages)
+      .map(({ score, ...passage }) => passage);
+  }
+
+  private synthesize(
+    query: string,
+    corpusSize: number,
+    searchedSize: number,
+    retrieved: Document[],
+    passages: RetrievalHit[]
+  ): string {
+    if (corpusSize === 0) {
+      return `No documents are indexed yet, so "${query}" could not be researched. Upload documents in the Documents tab first.`;
+    }
+
+    if (searchedSize === 0) {
+      return `None of the ${corpusSize} indexed documents match the search filters, so "${query}" could not be researched. Remove some filters and try again.`;
+    }
+
+    if (retrieved.length === 0) {
+      return `None of the ${searchedSize} searched documents were relevant enough to "${query}" to draw conclusions from.`;
+    }
+
+    const findings = passages
+      .slice(0, 5)
+      .map(passage => `• ${passage.excerpt} [${passage.title}]`)
+      .join('\n');
+
+    return `Found ${retrieved.length} relevant document(s) out of ${corpusSize} for "${query}". Key findings:\n${findings}`;
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+|(?<=[。！？])|\n{2,}/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(sentence => sentence.length > 20)
+      .map(sentence => (sentence.length > 300 ? `${sentence.slice(0, 300)}...` : sentence));
+  }
+
+  private tokenize(text: string): string[] {
+    // Letters and digits from any script, so accented and non-Latin words survive
+    return text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+  }
+}
+
+// Export singleton instance
+export const ResearchService = ResearchServiceClass.getInstance();
@@ -0,0 +1,404 @@
+import { filterDocuments } from '@/services/DocumentFilters';
+import { isCancelledError } from '@/services/EmbeddingErrors';
+import { EmbeddingService } from '@/services/EmbeddingService';
+import { isSameSpace, type EmbeddingSpace } from '@/services/EmbeddingSpace';
+import { LexicalIndexService } from '@/services/LexicalIndexService';
+import { reciprocalRankFusion, weightedScoreFusion, type RankedEntry } from '@/services/RankFusion';
+import { RerankService } from '@/services/RerankService';
+import { VectorIndexService } from '@/services/VectorIndexService';
+import { compactSimilarity, rescoreSimilarity, type CompactVector } from '@/services/VectorQuantization';
+import type {
+  Document,
+  DocumentChunk,
+  HitScores,
+  RetrievalHit,
+  RetrievedDocument,
+  SearchFilters,
+  SearchOptions
+} from '@/types/research';
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  mode: 'hybrid',
+  fusion: 'rrf',
+  semanticWeight: 0.5,
+  mmr: false,
+  mmrLambda: 0.7,
+  maxHitsPerDocument: 0
+};
+
+// Options to rerun a saved run with. Runs from before keyword and hybrid
+// retrieval have none and were semantic; later ones get defaults for options
+// added since.
+export const getRunOptions = (options?: SearchOptions): SearchOptions =>
+  options ? { ...DEFAULT_SEARCH_OPTIONS, ...options } : { ...DEFAULT_SEARCH_OPTIONS, mode: 'semantic' };
+
+export interface RetrievalQuery {
+  text: string;
+  // Needed for the semantic signal, so unused in keyword mode
+  embedding?: Float32Array;
+  space?: EmbeddingSpace;
+}
+
+export interface RetrievalOptions extends Partial<SearchOptions> {
+  // Minimum cosine similarity for the semantic signal
+  threshold?: number;
+  maxChunks?: number;
+  maxDocuments?: number;
+  // Re-rank the best compact matches against the full-precision query
+  rescore?: boolean;
+  // Candidates to rescore with the cross-encoder; 0 skips reranking
+  rerankTopN?: number;
+  // Documents that fail these are never scored
+  filters?: SearchFilters;
+  // Constraints stated in the query text; documents have to pass both sets
+  queryFilters?: SearchFilters;
+  signal?: AbortSignal;
+}
+
+// Compact scores only need to bring the right chunks into this wider pool for rescoring
+const RESCORE_OVERSAMPLING = 4;
+// Diversification needs alternatives to pick from beyond the plain top maxChunks
+const DIVERSITY_OVERSAMPLING = 3;
+// Below this share of a space's chunks passing the filters, scanning them
+// exactly is cheaper than digging that deep into the HNSW graph
+const FILTERED_EXACT_SCAN_SHARE = 0.1;
+
+type ChunkEntry = { document: Document; chunk: DocumentChunk };
+
+interface Candidate {
+  id: string;
+  embedding: CompactVector;
+}
+
+type ScoredCandidate = Candidate & { similarity: number };
+
+export interface RetrievalResult {
+  hits: RetrievalHit[];
+  documents: RetrievedDocument[];
+  // Documents left out of the semantic signal because none of their chunks share the query's embedding space
+  skippedDocuments: number;
+  // Documents that passed the filters and were searched
+  searchedDocuments: number;
+  // Set when the cross-encoder reranked the top candidates
+  rerank?: { candidates: number; latencyMs: number };
+  // Set when reranking was asked for but failed, leaving the first-stage order
+  rerankError?: string;
+}
+
+class RetrievalServiceClass {
+  private static instance: RetrievalServiceClass;
+
+  private constructor() {}
+
+  static getInstance(): RetrievalServiceClass {
+    if (!RetrievalServiceClass.instance) {
+      RetrievalServiceClass.instance = new RetrievalServiceClass();
+    }
+    return RetrievalServiceClass.instance;
+  }
+
+  // Ranks the chunks of the corpus's documents that pass the filters by the
+  // selected signals, optionally reranks the top candidates with a
+  // cross-encoder, then groups the best chunks back under their parent
+  // document. Documents are ordered by their best chunk. Semantic scores only
+  // compare chunks embedded in the query's space; keyword scores cover every
+  // chunk. The indexes are always synced with the whole corpus.
+  async search(query: RetrievalQuery, corpus: Document[], options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    const {
+      mode = DEFAULT_SEARCH_OPTIONS.mode,
+      fusion = DEFAULT_SEARCH_OPTIONS.fusion,
+      semanticWeight = DEFAULT_SEARCH_OPTIONS.semanticWeight,
+      maxChunks = 20,
+      rerankTopN = 0,
+      mmr = DEFAULT_SEARCH_OPTIONS.mmr,
+      maxHitsPerDocument = DEFAULT_SEARCH_OPTIONS.maxHitsPerDocument
+    } = options;
+    // Reranking and diversification can lift candidates from beyond maxChunks,
+    // so the first stage fetches enough for them
+    const diversify = mmr || maxHitsPerDocument > 0;
+    const poolSize = Math.max(maxChunks * (diversify ? DIVERSITY_OVERSAMPLING : 1), rerankTopN);
+
+    const eligible = filterDocuments(corpus, options.filters, options.queryFilters);
+    const chunks = new Map<string, ChunkEntry>(
+      eligible.flatMap(document => document.chunks.map(chunk => [chunk.id, { document, chunk }] as const))
+    );
+
+    const { ranked: semantic, skippedDocuments } = mode === 'keyword'
+      ? { ranked: [], skippedDocuments: 0 }
+      : await this.rankSemantic(query, corpus, eligible, poolSize, options);
+    const keyword = mode === 'semantic' ? [] : this.rankKeyword(query.text, corpus, chunks, poolSize);
+
+    const scores = new Map<string, HitScores>();
+    semantic.forEach(({ id, score }, rank) => scores.set(id, { semantic: score, semanticRank: rank + 1 }));
+    keyword.forEach(({ id, score }, rank) => scores.set(id, { ...scores.get(id), keyword: score, keywordRank: rank + 1 }));
+
+    let ranking: RankedEntry[];
+    if (mode === 'semantic') {
+      ranking = semantic;
+    } else if (mode === 'keyword') {
+      // BM25 is unbounded; scale so the best match scores 1
+      ranking = keyword.map(entry => ({ id: entry.id, score: entry.score / keyword[0].score }));
+    } else {
+      const fused = fusion === 'rrf'
+        ? reciprocalRankFusion([semantic, keyword])
+        : weightedScoreFusion([semantic, keyword], [semanticWeight, 1 - semanticWeight]);
+      ranking = Array.from(fused, ([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, poolSize);
+    }
+
+    let rerank: RetrievalResult['rerank'];
+    let rerankError: string | undefined;
+    if (rerankTopN > 0 && ranking.length > 0) {
+      const head = ranking.slice(0, rerankTopN);
+      try {
+        const outcome = await RerankService.rerank(
+          query.text,
+          head.map(({ id }) => {
+            const { document, chunk } = chunks.get(id)!;
+            return document.content.slice(chunk.start, chunk.end);
+          }),
+          options.signal
+        );
+        const reranked = head
+          .map((entry, i) => ({ id: entry.id, score: outcome.scores[i], rankBefore: i + 1 }))
+          .sort((a, b) => b.score - a.score);
+
+        reranked.forEach(({ id, score, rankBefore }, i) => {
+          scores.set(id, { ...scores.get(id), rerank: score, rankBefore, rankAfter: i + 1 });
+        });
+        ranking = [...reranked.map(({ id, score }) => ({ id, score })), ...ranking.slice(rerankTopN)];
+        rerank = { candidates: head.length, latencyMs: outcome.latencyMs };
+      } catch (error) {
+        // Reranking only refines the order, so a model that fails to load or run leaves the first-stage ranking
+        if (isCancelledError(error)) throw error;
+        console.warn('Reranking failed; keeping the first-stage ranking:', error);
+        rerankError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const { hits, documents } = this.select(ranking, chunks, options, ({ id, score }, { document, chunk }) => ({
+      documentId: document.id,
+      chunkId: chunk.id,
+      title: document.title,
+      similarity: score,
+      scores: scores.get(id),
+      excerpt: document.content.slice(chunk.start, chunk.end),
+      start: chunk.start,
+      end: chunk.end
+    }));
+
+    return { hits, documents, skippedDocuments, searchedDocuments: eligible.length, rerank, rerankError };
+  }
+
+  // Combines searches for several sub-queries of one question. Their hits are
+  // fused by reciprocal rank, so chunks more than one search found rise, then
+  // cut down with the same diversification and caps as a single search.
+  // Hits keep the scores of the search that ranked them first.
+  merge(results: RetrievalResult[], options: RetrievalOptions = {}): Pick<RetrievalResult, 'hits' | 'documents'> {
+    if (results.length === 1) return results[0];
+
+    const hits = new Map<string, RetrievalHit>();
+    const chunks = new Map<string, ChunkEntry>();
+    for (const result of results) {
+      for (const group of result.documents) {
+        for (const hit of group.hits) {
+          if (!hits.has(hit.chunkId)) hits.set(hit.chunkId, hit);
+          const chunk = group.document.chunks.find(candidate => candidate.id === hit.chunkId);
+          if (chunk) chunks.set(hit.chunkId, { document: group.document, chunk });
+        }
+      }
+    }
+
+    const ranking = Array.from(
+      reciprocalRankFusion(results.map(result => result.hits.map(hit => ({ id: hit.chunkId, score: hit.similarity })))),
+      ([id, score]) => ({ id, score })
+    )
+      .filter(({ id }) => chunks.has(id))
+      .sort((a, b) => b.score - a.score);
+
+    return this.select(ranking, chunks, options, ({ id }) => hits.get(id)!);
+  }
+
+  // Cuts a ranking down to maxChunks, by MMR and the per-document cap when
+  // either is set, then groups the hits under at most maxDocuments documents,
+  // ordered by their best chunk
+  private select(
+    ranking: RankedEntry[],
+    chunks: Map<string, ChunkEntry>,
+    options: RetrievalOptions,
+    toHit: (entry: RankedEntry, chunk: ChunkEntry) => RetrievalHit
+  ): Pick<RetrievalResult, 'hits' | 'documents'> {
+    const {
+      maxChunks = 20,
+      maxDocuments = 5,
+      mmr = DEFAULT_SEARCH_OPTIONS.mmr,
+      mmrLambda = DEFAULT_SEARCH_OPTIONS.mmrLambda,
+      maxHitsPerDocument = DEFAULT_SEARCH_OPTIONS.maxHitsPerDocument
+    } = options;
+
+    const selected = mmr || maxHitsPerDocument > 0
+      ? this.diversify(ranking, chunks, mmr ? mmrLambda : 1, maxHitsPerDocument, maxChunks)
+      : ranking.slice(0, maxChunks);
+
+    const grouped = new Map<string, RetrievedDocument>();
+    const hits: RetrievalHit[] = [];
+
+    for (const entry of selected) {
+      const chunk = chunks.get(entry.id)!;
+      let group = grouped.get(chunk.document.id);
+
+      if (!group) {
+        // The ranking is sorted, so once the document cap is reached only known documents can grow
+        if (grouped.size >= maxDocuments) continue;
+        group = { document: chunk.document, hits: [], score: entry.score };
+        grouped.set(chunk.document.id, group);
+      }
+
+      const hit = toHit(entry, chunk);
+      group.hits.push(hit);
+      hits.push(hit);
+    }
+
+    return { hits, documents: Array.from(grouped.values()) };
+  }
+
+  // Greedy maximal marginal relevance: each pick maximizes
+  // lambda * relevance - (1 - lambda) * (highest similarity to an earlier pick).
+  // Relevance comes from rank position, since after reranking the ranking mixes
+  // score scales. Documents at maxPerDocument hits are passed over.
+  private diversify(
+    ranking: RankedEntry[],
+    chunks: Map<string, ChunkEntry>,
+    lambda: number,
+    maxPerDocument: number,
+    limit: number
+  ): RankedEntry[] {
+    const remaining = ranking.map((entry, rank) => ({
+      entry,
+      ...chunks.get(entry.id)!,
+      relevance: 1 - rank / ranking.length,
+      redundancy: 0
+    }));
+    const perDocument = new Map<string, number>();
+    const selected: RankedEntry[] = [];
+
+    while (selected.length < limit && remaining.length > 0) {
+      let best = -1;
+      let bestScore = -Infinity;
+      remaining.forEach((candidate, i) => {
+        if (maxPerDocument > 0 && (perDocument.get(candidate.document.id) ?? 0) >= maxPerDocument) return;
+        const score = lambda * candidate.relevance - (1 - lambda) * candidate.redundancy;
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      });
+      if (best < 0) break;
+
+      const [picked] = remaining.splice(best, 1);
+      selected.push(picked.entry);
+      perDocument.set(picked.document.id, (perDocument.get(picked.document.id) ?? 0) + 1);
+
+      // Only the similarity to the newest pick can raise a candidate's redundancy
+      if (lambda < 1) {
+        for (const candidate of remaining) {
+          if (!isSameSpace(candidate.chunk.space, picked.chunk.space)) continue;
+          const similarity = compactSimilarity(candidate.chunk.embedding, picked.chunk.embedding);
+          candidate.redundancy = Math.max(candidate.redundancy, similarity);
+        }
+      }
+    }
+    return selected;
+  }
+
+  // Eligible chunks above the similarity threshold, most similar first
+  private async rankSemantic(
+    query: RetrievalQuery,
+    corpus: Document[],
+    eligible: Document[],
+    limit: number,
+    options: RetrievalOptions
+  ): Promise<{ ranked: RankedEntry[]; skippedDocuments: number }> {
+    const { threshold = 0.3, rescore = false } = options;
+    const { embedding, space } = query;
+    if (!embedding || !space) throw new Error('Semantic retrieval needs a query embedding');
+
+    let skippedDocuments = 0;
+    const candidates = eligible.flatMap((document): Candidate[] => {
+      const comparable = document.chunks.filter(chunk => isSameSpace(chunk.space, space));
+      if (document.chunks.length > 0 && comparable.length === 0) skippedDocuments++;
+
+      return comparable.map(chunk => ({ id: chunk.id, embedding: chunk.embedding }));
+    });
+
+    let matches = await this.findNearest(
+      embedding,
+      space,
+      corpus,
+      candidates,
+      rescore ? limit * RESCORE_OVERSAMPLING : limit
+    );
+
+    if (rescore) {
+      matches = matches
+        .map(match => ({ ...match, similarity: rescoreSimilarity(embedding, match.embedding) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+    }
+
+    const ranked = matches
+      .filter(match => match.similarity >= threshold)
+      .map(match => ({ id: match.id, score: match.similarity }));
+    return { ranked, skippedDocuments };
+  }
+
+  // Best BM25 matches among the eligible chunks
+  private rankKeyword(
+    text: string,
+    corpus: Document[],
+    chunks: Map<string, unknown>,
+    limit: number
+  ): RankedEntry[] {
+    LexicalIndexService.sync(corpus);
+    return LexicalIndexService.search(text, limit, id => chunks.has(id));
+  }
+
+  // The limit nearest candidates, most similar first. The graph holds every
+  // chunk in the space, so when only some are candidates it is searched
+  // proportionally deeper, or skipped for an exact scan when few remain or
+  // the graph is still being built.
+  private async findNearest(
+    queryEmbedding: Float32Array,
+    querySpace: EmbeddingSpace,
+    corpus: Document[],
+    candidates: Candidate[],
+    limit: number
+  ): Promise<ScoredCandidate[]> {
+    const indexed = corpus.reduce(
+      (sum, document) => sum + document.chunks.filter(chunk => isSameSpace(chunk.space, querySpace)).length,
+      0
+    );
+    const share = indexed > 0 ? candidates.length / indexed : 0;
+
+    if (VectorIndexService.getSettings().mode === 'hnsw' && share >= FILTERED_EXACT_SCAN_SHARE) {
+      // A graph still catching up with the corpus is scanned past, not waited for
+      VectorIndexService.sync(corpus).catch(error => {
+        console.warn('Could not update the vector index:', error);
+      });
+      const nearest = VectorIndexService.search(queryEmbedding, querySpace, Math.ceil(limit / share));
+      if (nearest) {
+        const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+        return nearest
+          .filter(match => byId.has(match.id))
+          .slice(0, limit)
+          .map(match => ({ ...byId.get(match.id)!, similarity: match.similarity }));
+      }
+    }
+
+    return EmbeddingService.findSimilarDocuments(queryEmbedding, candidates, -Infinity, limit);
+  }
+}
+
+// Export singleton instance
+export const RetrievalService = RetrievalServiceClass.getInstance();
@@ -0,0 +1,317 @@
+import type { Document, DocumentChunk, SearchResult } from '@/types/research';
+import type { CompactVector } from '@/services/VectorQuantization';
+import type { SerializedHnsw } from '@/services/HnswIndex';
+
+const DB_NAME = 'deep-research-agent';
+
+export type StoreName = 'documents' | 'chunks' | 'searchResults' | 'embeddingCache' | 'vectorIndexes';
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+type ChangeListener = (store: StoreName) => void;
+
+interface StoredDocument {
+  id: string;
+  title: string;
+  content: string;
+  metadata: Document['metadata'];
+}
+
+interface StoredChunk extends DocumentChunk {
+  documentId: string;
+}
+
+interface CachedEmbedding {
+  key: string;
+  embedding: Float32Array;
+  // Epoch milliseconds of the last read or write, for LRU eviction
+  lastUsed: number;
+}
+
+export interface StoredVectorIndex {
+  // Embedding space key of the chunks in the graph
+  spaceKey: string;
+  graph: SerializedHnsw;
+}
+
+// Each entry upgrades the schema from version N to N + 1. Append new
+// migrations to the end; never edit one that has already shipped.
+const MIGRATIONS: Migration[] = [
+  (db) => {
+    db.createObjectStore('documents', { keyPath: 'id' });
+    const chunks = db.createObjectStore('chunks', { keyPath: 'id' });
+    chunks.createIndex('documentId', 'documentId');
+  },
+  (db) => {
+    db.createObjectStore('searchResults', { keyPath: 'id' });
+  },
+  (db) => {
+    const cache = db.createObjectStore('embeddingCache', { keyPath: 'key' });
+    cache.createIndex('lastUsed', 'lastUsed');
+  },
+  // Chunk vectors were bare Float32Arrays before compact formats existed
+  (_db, transaction) => {
+    const request = transaction.objectStore('chunks').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const chunk = cursor.value as Omit<StoredChunk, 'embedding'> & { embedding: Float32Array | CompactVector };
+      if (chunk.embedding instanceof Float32Array) {
+        cursor.update({ ...chunk, embedding: { format: 'float32', data: chunk.embedding } });
+      }
+      cursor.continue();
+    };
+  },
+  (db) => {
+    db.createObjectStore('vectorIndexes', { keyPath: 'spaceKey' });
+  }
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+class StorageServiceClass {
+  private static instance: StorageServiceClass;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<ChangeListener>();
+
+  private constructor() {}
+
+  static getInstance(): StorageServiceClass {
+    if (!StorageServiceClass.instance) {
+      StorageServiceClass.instance = new StorageServiceClass();
+    }
+    return StorageServiceClass.instance;
+  }
+
+  // Notified with the affected store after every committed write so views can reload
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async loadDocuments(): Promise<Document[]> {
+    const transaction = await this.transaction(['documents', 'chunks'], 'readonly');
+    const [storedDocuments, storedChunks] = await Promise.all([
+      requestToPromise<StoredDocument[]>(transaction.objectStore('documents').getAll()),
+      requestToPromise<StoredChunk[]>(transaction.objectStore('chunks').getAll())
+    ]);
+
+    const chunksByDocument = new Map<string, DocumentChunk[]>();
+    for (const { documentId, ...chunk } of storedChunks) {
+      const chunks = chunksByDocument.get(documentId) ?? [];
+      chunks.push(chunk);
+      chunksByDocument.set(documentId, chunks);
+    }
+
+    return storedDocuments
+      .map(doc => ({
+        ...doc,
+        chunks: (chunksByDocument.get(doc.id) ?? []).sort((a, b) => a.index - b.index)
+      }))
+      .sort((a, b) => a.metadata.uploadedAt.getTime() - b.metadata.uploadedAt.getTime());
+  }
+
+  // Inserts or replaces documents together with their full chunk set
+  async saveDocuments(documents: Document[]): Promise<void> {
+    const transaction = await this.transaction(['documents', 'chunks'], 'readwrite');
+    const documentStore = transaction.objectStore('documents');
+    const chunkStore = transaction.objectStore('chunks');
+
+    for (const { chunks, ...doc } of documents) {
+      documentStore.put(doc);
+      this.replaceChunks(chunkStore, doc.id, chunks.map(chunk => ({ ...chunk, documentId: doc.id })));
+    }
+
+    await transactionDone(transaction);
+    this.notify('documents');
+  }
+
+  // Replaces only the document record, for edits that leave its chunks as they are
+  async saveDocumentMetadata(document: Document): Promise<void> {
+    const transaction = await this.transaction(['documents'], 'readwrite');
+    const { chunks, ...doc } = document;
+    transaction.objectStore('documents').put(doc);
+
+    await transactionDone(transaction);
+    this.notify('documents');
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const transaction = await this.transaction(['documents', 'chunks'], 'readwrite');
+    transaction.objectStore('documents').delete(id);
+    this.replaceChunks(transaction.objectStore('chunks'), id, []);
+
+    await transactionDone(transaction);
+    this.notify('documents');
+  }
+
+  async loadSearchResults(): Promise<SearchResult[]> {
+    const transaction = await this.transaction(['searchResults'], 'readonly');
+    const results = await requestToPromise<SearchResult[]>(transaction.objectStore('searchResults').getAll());
+    return results.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async saveSearchResult(result: SearchResult): Promise<void> {
+    const transaction = await this.transaction(['searchResults'], 'readwrite');
+    transaction.objectStore('searchResults').put(result);
+
+    await transactionDone(transaction);
+    this.notify('searchResults');
+  }
+
+  async deleteSearchResult(id: string): Promise<void> {
+    const transaction = await this.transaction(['searchResults'], 'readwrite');
+    transaction.objectStore('searchResults').delete(id);
+
+    await transactionDone(transaction);
+    this.notify('searchResults');
+  }
+
+  // Returns the cached vector for each key, or undefined, and marks hits as recently used
+  async getCachedEmbeddings(keys: string[]): Promise<(number[] | undefined)[]> {
+    const transaction = await this.transaction(['embeddingCache'], 'readwrite');
+    const store = transaction.objectStore('embeddingCache');
+    const now = Date.now();
+
+    const entries = await Promise.all(keys.map(key => requestToPromise<CachedEmbedding | undefined>(store.get(key))));
+    entries.forEach(entry => {
+      if (entry) store.put({ ...entry, lastUsed: now });
+    });
+
+    await transactionDone(transaction);
+    return entries.map(entry => (entry ? Array.from(entry.embedding) : undefined));
+  }
+
+  async putCachedEmbeddings(entries: { key: string; embedding: number[] }[]): Promise<void> {
+    const transaction = await this.transaction(['embeddingCache'], 'readwrite');
+    const store = transaction.objectStore('embeddingCache');
+    const now = Date.now();
+
+    entries.forEach(({ key, embedding }) => {
+      store.put({ key, embedding: Float32Array.from(embedding), lastUsed: now } satisfies CachedEmbedding);
+    });
+
+    await transactionDone(transaction);
+  }
+
+  async countCachedEmbeddings(): Promise<number> {
+    const transaction = await this.transaction(['embeddingCache'], 'readonly');
+    return requestToPromise(transaction.objectStore('embeddingCache').count());
+  }
+
+  // Deletes the least recently used entries beyond maxEntries; resolves with how many were removed
+  async evictCachedEmbeddings(maxEntries: number): Promise<number> {
+    const transaction = await this.transaction(['embeddingCache'], 'readwrite');
+    const store = transaction.objectStore('embeddingCache');
+    const excess = (await requestToPromise(store.count())) - maxEntries;
+    if (excess <= 0) return 0;
+
+    const keys = await requestToPromise(store.index('lastUsed').getAllKeys(null, excess));
+    keys.forEach(key => store.delete(key));
+
+    await transactionDone(transaction);
+    return keys.length;
+  }
+
+  async clearEmbeddingCache(): Promise<void> {
+    const transaction = await this.transaction(['embeddingCache'], 'readwrite');
+    transaction.objectStore('embeddingCache').clear();
+
+    await transactionDone(transaction);
+  }
+
+  async loadVectorIndexes(): Promise<StoredVectorIndex[]> {
+    const transaction = await this.transaction(['vectorIndexes'], 'readonly');
+    return requestToPromise<StoredVectorIndex[]>(transaction.objectStore('vectorIndexes').getAll());
+  }
+
+  // Replaces the stored graphs for the given spaces; a null graph deletes it
+  async saveVectorIndexes(entries: { spaceKey: string; graph: SerializedHnsw | null }[]): Promise<void> {
+    const transaction = await this.transaction(['vectorIndexes'], 'readwrite');
+    const store = transaction.objectStore('vectorIndexes');
+
+    entries.forEach(({ spaceKey, graph }) => {
+      if (graph) store.put({ spaceKey, graph } satisfies StoredVectorIndex);
+      else store.delete(spaceKey);
+    });
+
+    await transactionDone(transaction);
+  }
+
+  async clearVectorIndexes(): Promise<void> {
+    const transaction = await this.transaction(['vectorIndexes'], 'readwrite');
+    transaction.objectStore('vectorIndexes').clear();
+
+    await transactionDone(transaction);
+  }
+
+  // Old chunk keys are collected before anything is written, so chunks that
+  // keep their id across a save are deleted and then re-put, never lost.
+  private replaceChunks(chunkStore: IDBObjectStore, documentId: string, chunks: StoredChunk[]) {
+    const request = chunkStore.index('documentId').getAllKeys(IDBKeyRange.only(documentId));
+    request.onsuccess = () => {
+      request.result.forEach(key => chunkStore.delete(key));
+      chunks.forEach(chunk => chunkStore.put(chunk));
+    };
+  }
+
+  private async transaction(stores: StoreName[], mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await this.open();
+    return db.transaction(stores, mode);
+  }
+
+  // The database is only opened on first use
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          const transaction = request.transaction!;
+          for (let version = event.oldVersion; version < DB_VERSION; version++) {
+            console.log(`Migrating local storage to schema version ${version + 1}`);
+            MIGRATIONS[version](db, transaction);
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab upgraded the schema; drop this connection so it can proceed
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error ?? new Error('Failed to open local storage'));
+        };
+        request.onblocked = () => {
+          console.warn('Local storage upgrade is blocked by another open tab');
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private notify(store: StoreName) {
+    this.listeners.forEach(listener => listener(store));
+  }
+}
+
+// Export singleton instance
+export const StorageService = StorageServiceClass.getInstance();
@@ -0,0 +1,72 @@
+import { stem } from '@/services/PorterStemmer';
+
+// Turns text into the terms a lexical index stores and matches on
+
+export type TokenizerType = 'words' | 'identifiers' | 'whitespace';
+
+export interface AnalyzerOptions {
+  tokenizer: TokenizerType;
+  // Lowercase terms dropped before stemming
+  stopwords: string[];
+  // Porter stemming, applied to ASCII letter terms only
+  stemming: boolean;
+}
+
+export const TOKENIZERS: { id: TokenizerType; label: string }[] = [
+  { id: 'words', label: 'Words (letters and digits)' },
+  { id: 'identifiers', label: 'Identifiers (keeps ERR_CODE, v1.2, foo-bar whole)' },
+  { id: 'whitespace', label: 'Whitespace' }
+];
+
+export const ENGLISH_STOPWORDS = [
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but',
+  'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'more', 'no', 'not', 'of', 'on', 'or',
+  'our', 'she', 'so', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'would', 'you', 'your'
+];
+
+export const DEFAULT_ANALYZER: AnalyzerOptions = {
+  tokenizer: 'words',
+  stopwords: ENGLISH_STOPWORDS,
+  stemming: true
+};
+
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+// Word characters joined by _ . - so identifiers, versions and codes stay one term
+const IDENTIFIER = /[\p{L}\p{M}\p{N}]+(?:[_.-][\p{L}\p{M}\p{N}]+)*/gu;
+// Scripts written without spaces; each character becomes its own term
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+const UNSPACED_SPLIT = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}])/u;
+const ASCII_WORD = /^[a-z]+$/;
+
+const splitUnspaced = (token: string): string[] =>
+  UNSPACED.test(token) ? token.split(UNSPACED_SPLIT).filter(Boolean) : [token];
+
+const tokenize = (text: string, tokenizer: TokenizerType): string[] => {
+  switch (tokenizer) {
+    case 'words':
+      return (text.match(WORD) ?? []).flatMap(splitUnspaced);
+    case 'identifiers':
+      // Compound identifiers also yield their parts, so a search for one part still matches
+      return (text.match(IDENTIFIER) ?? []).flatMap(token => {
+        const parts = (token.match(WORD) ?? []).flatMap(splitUnspaced);
+        return /[_.-]/.test(token) ? [token, ...parts] : parts;
+      });
+    case 'whitespace':
+      return text
+        .split(/\s+/)
+        .map(token => token.replace(/^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu, ''))
+        .filter(Boolean);
+  }
+};
+
+export const createAnalyzer = (options: AnalyzerOptions) => {
+  const stopwords = new Set(options.stopwords.map(word => word.toLowerCase()));
+
+  return (text: string): string[] =>
+    tokenize(text.normalize('NFKC').toLowerCase(), options.tokenizer)
+      .filter(term => !stopwords.has(term))
+      .map(term => (options.stemming && ASCII_WORD.test(term) ? stem(term) : term));
+};
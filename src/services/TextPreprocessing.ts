@@ -0,0 +1,50 @@
+// Unicode-aware cleanup applied to every text before it is embedded. Runs in
+// the embedding worker; the options are chosen in the UI and sent along with
+// each request.
+
+export interface PreprocessingOptions {
+  // Replace punctuation with spaces
+  stripPunctuation: boolean;
+  // Remove symbols: emoji, currency, math and other pictographs
+  stripSymbols: boolean;
+  // Tag each document with its detected language at indexing time; does not change vectors
+  detectLanguage: boolean;
+}
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  stripPunctuation: false,
+  stripSymbols: false,
+  detectLanguage: false
+};
+
+// Format characters other than the zero-width joiners, which Persian, Indic
+// scripts and emoji sequences depend on
+const FORMAT_CHARACTERS = /(?![\u200C\u200D])\p{Cf}/gu;
+const CONTROL_CHARACTERS = /\p{Cc}/gu;
+const PUNCTUATION = /\p{P}/gu;
+const SYMBOLS = /\p{S}/gu;
+
+// Changes here move vectors: bump PREPROCESSING_VERSION in EmbeddingSpace alongside them
+export const preprocessText = (text: string, options: PreprocessingOptions = DEFAULT_PREPROCESSING): string => {
+  // NFKC folds compatibility forms (full-width Latin, ligatures, superscripts) into
+  // their plain equivalents and composes accents, so "é" has a single spelling
+  let cleaned = text
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .replace(CONTROL_CHARACTERS, '')
+    .replace(FORMAT_CHARACTERS, '');
+
+  if (options.stripPunctuation) cleaned = cleaned.replace(PUNCTUATION, ' ');
+  if (options.stripSymbols) cleaned = cleaned.replace(SYMBOLS, ' ');
+
+  return cleaned.replace(/\s+/g, ' ').trim();
+};
+
+// Identifies the options that change vectors; absent for the defaults
+export const getPreprocessingKey = (options: PreprocessingOptions): string | undefined => {
+  const flags = [
+    options.stripPunctuation ? 'strip-punctuation' : '',
+    options.stripSymbols ? 'strip-symbols' : ''
+  ].filter(Boolean);
+  return flags.length > 0 ? flags.join('+') : undefined;
+};
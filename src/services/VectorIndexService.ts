@@ -0,0 +1,321 @@
+import { EmbeddingService } from '@/services/EmbeddingService';
+import { getSpaceKey, type EmbeddingSpace } from '@/services/EmbeddingSpace';
+import {
+  DEFAULT_HNSW_PARAMETERS,
+  HnswIndex,
+  type HnswMatch,
+  type HnswParameters
+} from '@/services/HnswIndex';
+import { StorageService, type StoredVectorIndex } from '@/services/StorageService';
+import { decodeVector, type CompactVector } from '@/services/VectorQuantization';
+import type { Document } from '@/types/research';
+
+const SETTINGS_STORAGE_KEY = 'vector-index-settings';
+// Graphs are written back once edits have settled, not after every document
+const SAVE_DELAY_MS = 2000;
+// Inserts run in slices of about this long, so building a graph doesn't freeze the page
+const BUILD_SLICE_MS = 12;
+
+// 'exact' compares the query with every chunk, as before the index existed
+export type VectorSearchMode = 'hnsw' | 'exact';
+
+export interface VectorIndexSettings extends HnswParameters {
+  mode: VectorSearchMode;
+}
+
+export const DEFAULT_VECTOR_INDEX_SETTINGS: VectorIndexSettings = { mode: 'hnsw', ...DEFAULT_HNSW_PARAMETERS };
+
+export interface VectorIndexStats {
+  spaces: number;
+  nodes: number;
+  // Highest layer across the graphs, -1 when empty
+  maxLevel: number;
+}
+
+export interface RecallMeasurement {
+  queries: number;
+  k: number;
+  // Share of the exact top k also returned by the index, averaged over queries
+  recall: number;
+  // Mean milliseconds per query
+  hnswMs: number;
+  exactMs: number;
+}
+
+type SettingsListener = (settings: VectorIndexSettings) => void;
+type StatsListener = (stats: VectorIndexStats) => void;
+
+// Chunk vectors per embedding space key, keyed by chunk id
+const groupBySpace = (documents: Document[]): Map<string, Map<string, CompactVector>> => {
+  const spaces = new Map<string, Map<string, CompactVector>>();
+  for (const document of documents) {
+    for (const chunk of document.chunks) {
+      if (!chunk.space) continue;
+      const key = getSpaceKey(chunk.space);
+      const vectors = spaces.get(key) ?? new Map<string, CompactVector>();
+      vectors.set(chunk.id, chunk.embedding);
+      spaces.set(key, vectors);
+    }
+  }
+  return spaces;
+};
+
+// Up to count items drawn uniformly without replacement, by a partial Fisher–Yates shuffle
+const sampleUniformly = <T>(items: T[], count: number): T[] => {
+  const pool = [...items];
+  const size = Math.min(count, pool.length);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, size);
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// One HNSW graph per embedding space, kept in step with the corpus and
+// persisted so a page load does not rebuild it. Vectors stay on the chunks;
+// only the graph structure is stored.
+class VectorIndexServiceClass {
+  private static instance: VectorIndexServiceClass;
+  private indexes = new Map<string, HnswIndex>();
+  private settings: VectorIndexSettings = this.loadSettings();
+  private stored: Promise<StoredVectorIndex[]> | null = null;
+  private restored = false;
+  private dirty = new Set<string>();
+  // Builds run one after another; queued holds the latest corpus to catch up with
+  private build: Promise<void> = Promise.resolve();
+  private queued: Map<string, Map<string, CompactVector>> | null = null;
+  // Spaces whose graph lacks chunks of the latest corpus, searched exactly until built
+  private behind = new Set<string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private settingsListeners = new Set<SettingsListener>();
+  private statsListeners = new Set<StatsListener>();
+
+  private constructor() {}
+
+  static getInstance(): VectorIndexServiceClass {
+    if (!VectorIndexServiceClass.instance) {
+      VectorIndexServiceClass.instance = new VectorIndexServiceClass();
+    }
+    return VectorIndexServiceClass.instance;
+  }
+
+  getSettings(): VectorIndexSettings {
+    return this.settings;
+  }
+
+  subscribeToSettings(listener: SettingsListener): () => void {
+    this.settingsListeners.add(listener);
+    return () => {
+      this.settingsListeners.delete(listener);
+    };
+  }
+
+  // Graphs built with a different M or efConstruction are dropped and rebuilt on the next sync
+  async setSettings(settings: VectorIndexSettings): Promise<void> {
+    const rebuild = settings.m !== this.settings.m || settings.efConstruction !== this.settings.efConstruction;
+    this.settings = settings;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.settingsListeners.forEach(listener => listener(settings));
+
+    if (rebuild) {
+      this.indexes.clear();
+      this.dirty.clear();
+      this.behind.clear();
+      this.restored = true;
+      this.notifyStats();
+      await StorageService.clearVectorIndexes();
+    }
+  }
+
+  getStats(): VectorIndexStats {
+    const indexes = Array.from(this.indexes.values());
+    return {
+      spaces: indexes.length,
+      nodes: indexes.reduce((sum, index) => sum + index.size, 0),
+      maxLevel: Math.max(-1, ...indexes.map(index => index.maxLevel))
+    };
+  }
+
+  subscribeToStats(listener: StatsListener): () => void {
+    this.statsListeners.add(listener);
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  // Inserts chunks the graphs have not seen and deletes chunks that are gone,
+  // settling once the graphs have caught up. Inserts yield to the page between
+  // slices, and search() skips a graph until its inserts are done, so callers
+  // that only want to search need not wait. Nothing is built while exact
+  // search is selected.
+  async sync(documents: Document[]): Promise<void> {
+    if (this.settings.mode !== 'hnsw') return;
+    const spaces = groupBySpace(documents);
+
+    if (!this.restored) {
+      this.stored ??= StorageService.loadVectorIndexes().catch(error => {
+        console.warn('Could not load stored vector indexes; rebuilding:', error);
+        return [];
+      });
+      const stored = await this.stored;
+      // A concurrent sync may have restored while this one waited
+      if (!this.restored) {
+        this.restore(stored, spaces);
+        this.restored = true;
+      }
+    }
+
+    for (const [spaceKey, vectors] of spaces) {
+      const index = this.indexes.get(spaceKey);
+      if (!index || Array.from(vectors.keys()).some(id => !index.has(id))) this.behind.add(spaceKey);
+    }
+    this.queued = spaces;
+    this.build = this.build
+      .catch(() => undefined)
+      .then(() => {
+        const latest = this.queued;
+        this.queued = null;
+        return latest ? this.update(latest) : undefined;
+      });
+    return this.build;
+  }
+
+  // Returns null when the space has no graph yet, or one still being built,
+  // so callers can fall back to an exact scan
+  search(query: Float32Array, space: EmbeddingSpace, k: number): HnswMatch[] | null {
+    const spaceKey = getSpaceKey(space);
+    const index = this.indexes.get(spaceKey);
+    return index && !this.behind.has(spaceKey) ? index.search(query, k, this.settings.efSearch) : null;
+  }
+
+  // Uses stored chunks as queries and compares the index's top k against an exact scan
+  async measureRecall(documents: Document[], queries = 50, k = 10): Promise<RecallMeasurement> {
+    await this.sync(documents);
+
+    const chunks = documents.flatMap(document => document.chunks.filter(chunk => chunk.space && this.indexes.has(getSpaceKey(chunk.space))));
+    const sample = sampleUniformly(chunks, queries);
+    if (sample.length === 0) return { queries: 0, k, recall: 0, hnswMs: 0, exactMs: 0 };
+
+    let recall = 0;
+    let hnswMs = 0;
+    let exactMs = 0;
+
+    for (const chunk of sample) {
+      const key = getSpaceKey(chunk.space!);
+      const query = decodeVector(chunk.embedding);
+      const candidates = chunks
+        .filter(candidate => getSpaceKey(candidate.space!) === key)
+        .map(candidate => ({ id: candidate.id, embedding: candidate.embedding }));
+
+      let started = performance.now();
+      const exact = EmbeddingService.findSimilarDocuments(query, candidates, -Infinity, k);
+      exactMs += performance.now() - started;
+
+      started = performance.now();
+      const approximate = new Set(this.indexes.get(key)!.search(query, k, this.settings.efSearch).map(match => match.id));
+      hnswMs += performance.now() - started;
+
+      recall += exact.filter(match => approximate.has(match.id)).length / Math.max(exact.length, 1);
+    }
+
+    return { queries: sample.length, k, recall: recall / sample.length, hnswMs: hnswMs / sample.length, exactMs: exactMs / sample.length };
+  }
+
+  private restore(stored: StoredVectorIndex[], spaces: Map<string, Map<string, CompactVector>>) {
+    for (const { spaceKey, graph } of stored) {
+      const vectors = spaces.get(spaceKey);
+      const compatible = graph.m === this.settings.m && graph.efConstruction === this.settings.efConstruction;
+      if (vectors && compatible) {
+        this.indexes.set(spaceKey, HnswIndex.deserialize(graph, vectors, this.settings));
+      }
+      // Whatever was dropped or repaired on load is written back
+      this.dirty.add(spaceKey);
+    }
+  }
+
+  private async update(spaces: Map<string, Map<string, CompactVector>>) {
+    for (const [spaceKey, index] of this.indexes) {
+      if (!spaces.has(spaceKey)) {
+        this.indexes.delete(spaceKey);
+        this.behind.delete(spaceKey);
+        this.dirty.add(spaceKey);
+      }
+    }
+
+    for (const [spaceKey, vectors] of spaces) {
+      let index = this.indexes.get(spaceKey);
+      if (!index) {
+        index = new HnswIndex(this.settings);
+        this.indexes.set(spaceKey, index);
+      }
+
+      const removed = index.deleteAll(Array.from(index.ids()).filter(id => !vectors.has(id)));
+
+      let inserted = 0;
+      let sliceStarted = performance.now();
+      for (const [id, vector] of vectors) {
+        if (index.has(id)) {
+          index.replaceVector(id, vector);
+          continue;
+        }
+        if (performance.now() - sliceStarted > BUILD_SLICE_MS) {
+          this.dirty.add(spaceKey);
+          this.notifyStats();
+          await yieldToEventLoop();
+          // New index settings dropped the graphs; the next sync rebuilds them
+          if (this.indexes.get(spaceKey) !== index) return;
+          sliceStarted = performance.now();
+        }
+        index.insert(id, vector);
+        inserted++;
+      }
+
+      // A newer corpus is queued; its update decides whether the graph is current
+      if (!this.queued) this.behind.delete(spaceKey);
+      if (removed > 0 || inserted > 0) this.dirty.add(spaceKey);
+    }
+
+    if (this.dirty.size > 0) {
+      this.notifyStats();
+      this.scheduleSave();
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      const entries = Array.from(this.dirty, spaceKey => ({
+        spaceKey,
+        graph: this.indexes.get(spaceKey)?.serialize() ?? null
+      }));
+      this.dirty.clear();
+
+      StorageService.saveVectorIndexes(entries).catch(error => {
+        console.warn('Could not save vector indexes:', error);
+      });
+    }, SAVE_DELAY_MS);
+  }
+
+  private loadSettings(): VectorIndexSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored
+        ? { ...DEFAULT_VECTOR_INDEX_SETTINGS, ...JSON.parse(stored) as Partial<VectorIndexSettings> }
+        : DEFAULT_VECTOR_INDEX_SETTINGS;
+    } catch (error) {
+      console.warn('Ignoring unreadable vector index settings:', error);
+      return DEFAULT_VECTOR_INDEX_SETTINGS;
+    }
+  }
+
+  private notifyStats() {
+    const stats = this.getStats();
+    this.statsListeners.forEach(listener => listener(stats));
+  }
+}
+
+// Export singleton instance
+export const VectorIndexService = VectorIndexServiceClass.getInstance();
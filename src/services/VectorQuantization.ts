@@ -0,0 +1,146 @@
+// Compact in-memory and on-disk representations for chunk vectors. All
+// formats hold unit-length vectors, so their scores approximate cosine similarity.
+
+export type VectorFormat = 'float32' | 'int8' | 'binary';
+
+export type CompactVector =
+  | { format: 'float32'; data: Float32Array }
+  // Symmetric scalar quantization: value ≈ data[i] * scale
+  | { format: 'int8'; data: Int8Array; scale: number }
+  // One sign bit per dimension, most significant bit first
+  | { format: 'binary'; data: Uint8Array; dimensions: number };
+
+export interface VectorStorageOptions {
+  // Matryoshka truncation: keep only the leading dimensions. Only meaningful for
+  // models trained for it; others lose much more accuracy when truncated.
+  truncateTo?: number;
+  format: VectorFormat;
+  // Re-rank the best compact matches with the full-precision query vector
+  rescore: boolean;
+}
+
+export const DEFAULT_VECTOR_STORAGE: VectorStorageOptions = {
+  format: 'float32',
+  rescore: false
+};
+
+export const VECTOR_FORMATS: { id: VectorFormat; label: string }[] = [
+  { id: 'float32', label: 'Float32 (4 bytes per dimension)' },
+  { id: 'int8', label: 'Int8 scalar (1 byte per dimension)' },
+  { id: 'binary', label: 'Binary (1 bit per dimension)' }
+];
+
+const normalize = (vector: ArrayLike<number>): Float32Array => {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) normalized[i] = norm === 0 ? 0 : vector[i] / norm;
+  return normalized;
+};
+
+// Keeps the leading dimensions and restores unit length
+export const truncateVector = (vector: number[], truncateTo?: number): Float32Array =>
+  normalize(truncateTo && truncateTo < vector.length ? vector.slice(0, truncateTo) : vector);
+
+export const encodeVector = (vector: ArrayLike<number>, format: VectorFormat): CompactVector => {
+  const unit = normalize(vector);
+
+  switch (format) {
+    case 'float32':
+      return { format, data: unit };
+    case 'int8': {
+      let max = 0;
+      for (let i = 0; i < unit.length; i++) max = Math.max(max, Math.abs(unit[i]));
+      const scale = max === 0 ? 1 : max / 127;
+      const data = new Int8Array(unit.length);
+      for (let i = 0; i < unit.length; i++) data[i] = Math.round(unit[i] / scale);
+      return { format, data, scale };
+    }
+    case 'binary': {
+      const data = new Uint8Array(Math.ceil(unit.length / 8));
+      for (let i = 0; i < unit.length; i++) {
+        if (unit[i] > 0) data[i >> 3] |= 0x80 >> (i & 7);
+      }
+      return { format, data, dimensions: unit.length };
+    }
+  }
+};
+
+export const getDimensions = (vector: CompactVector): number =>
+  vector.format === 'binary' ? vector.dimensions : vector.data.length;
+
+// Unit-length float approximation of a compact vector
+export const decodeVector = (vector: CompactVector): Float32Array => {
+  switch (vector.format) {
+    case 'float32':
+      return vector.data;
+    case 'int8':
+      return normalize(Array.from(vector.data, value => value * vector.scale));
+    case 'binary': {
+      const value = 1 / Math.sqrt(vector.dimensions);
+      const decoded = new Float32Array(vector.dimensions);
+      for (let i = 0; i < vector.dimensions; i++) {
+        decoded[i] = vector.data[i >> 3] & (0x80 >> (i & 7)) ? value : -value;
+      }
+      return decoded;
+    }
+  }
+};
+
+const POPCOUNT = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let bits = 0;
+  for (let value = byte; value; value >>= 1) bits += value & 1;
+  return bits;
+});
+
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// A float vector dotted with a decoded binary vector comes out near
+// sqrt(2 / pi) times their cosine, so those scores are scaled back up
+const BINARY_DECODE_BIAS = Math.sqrt(2 / Math.PI);
+
+const decodedDot = (a: ArrayLike<number>, b: CompactVector): number =>
+  dot(a, decodeVector(b)) / (b.format === 'binary' ? BINARY_DECODE_BIAS : 1);
+
+// Scores two vectors of the same format without decoding them. For binary
+// vectors the Hamming distance maps to an angle, so cos(pi * h / d) estimates
+// cosine similarity on the same scale as the other formats.
+export const compactSimilarity = (a: CompactVector, b: CompactVector): number => {
+  if (a.format === 'float32' && b.format === 'float32') {
+    return dot(a.data, b.data);
+  }
+  if (a.format === 'int8' && b.format === 'int8') {
+    return dot(a.data, b.data) * a.scale * b.scale;
+  }
+  if (a.format === 'binary' && b.format === 'binary') {
+    let hamming = 0;
+    for (let i = 0; i < a.data.length; i++) hamming += POPCOUNT[a.data[i] ^ b.data[i]];
+    return Math.cos((Math.PI * hamming) / a.dimensions);
+  }
+  // Mixed formats: decode the binary side if there is one, so only it needs the bias correction
+  return a.format === 'binary' ? decodedDot(decodeVector(b), a) : decodedDot(decodeVector(a), b);
+};
+
+// Full-precision query against the stored vector's best float approximation
+export const rescoreSimilarity = (query: Float32Array, vector: CompactVector): number =>
+  decodedDot(query, vector);
+
+// Encodes the query once per format it is compared against
+export const createQueryEncoder = (query: Float32Array) => {
+  const encoded = new Map<VectorFormat, CompactVector>();
+  return (format: VectorFormat): CompactVector => {
+    let vector = encoded.get(format);
+    if (!vector) {
+      vector = encodeVector(query, format);
+      encoded.set(format, vector);
+    }
+    return vector;
+  };
+};
@@ -0,0 +1,68 @@
+import { pipeline, type TextClassificationPipeline } from '@huggingface/transformers';
+import { ModelLoadError } from '@/services/EmbeddingErrors';
+import { applyOfflineFiles, createLoadProgressCallback } from '@/services/providers/TransformersProvider';
+import type { ProviderLoadEvent, RerankerConfig } from '@/services/providers/EmbeddingProvider';
+
+// Pairs per forward pass; every pair is padded to the longest in its batch
+const BATCH_SIZE = 8;
+
+// pipeline()'s generic return type is too complex for tsc to resolve, so pin it to our task
+const createClassifier = pipeline as (
+  task: 'text-classification',
+  model: string,
+  options?: Parameters<typeof pipeline>[2]
+) => Promise<TextClassificationPipeline>;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Scores how well each passage answers a query by reading both together.
+// Loaded as a text-classification pipeline, but called through its tokenizer
+// and model directly: the pipeline neither accepts text pairs nor exposes the
+// single relevance logit that ms-marco style models produce.
+export class CrossEncoder {
+  private classifier: TextClassificationPipeline | null = null;
+
+  constructor(private readonly config: RerankerConfig) {}
+
+  async initialize(onLoad?: (event: ProviderLoadEvent) => void): Promise<void> {
+    if (this.config.offline) applyOfflineFiles(this.config.offline);
+
+    try {
+      this.classifier = await createClassifier('text-classification', this.config.modelId, {
+        device: 'wasm',
+        dtype: this.config.dtype ?? 'fp32',
+        progress_callback: createLoadProgressCallback(onLoad)
+      });
+      console.log(`Reranker ${this.config.modelId} initialized`);
+    } catch (error) {
+      throw new ModelLoadError(
+        `Failed to initialize reranker: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Relevance of each passage to the query, from 0 to 1, in input order
+  async score(query: string, passages: string[], isCancelled?: () => boolean): Promise<number[] | null> {
+    const { tokenizer, model } = this.classifier!;
+    const scores: number[] = [];
+
+    for (let start = 0; start < passages.length; start += BATCH_SIZE) {
+      if (isCancelled?.()) return null;
+
+      const batch = passages.slice(start, start + BATCH_SIZE);
+      const inputs = tokenizer(batch.map(() => query), { text_pair: batch, padding: true, truncation: true });
+      const { logits } = await model(inputs);
+
+      // [batch, labels]; ms-marco models have a single label, otherwise the last one means relevant
+      const [rows, labels] = logits.dims as number[];
+      const data = logits.data as Float32Array;
+      for (let row = 0; row < rows; row++) scores.push(sigmoid(data[row * labels + labels - 1]));
+    }
+    return scores;
+  }
+
+  async dispose(): Promise<void> {
+    await this.classifier?.dispose();
+    this.classifier = null;
+  }
+}
@@ -0,0 +1,79 @@
+export type ProviderId = 'transformers' | 'hashing' | 'openai-compatible';
+
+// Serves the model and the ONNX runtime from the app's own origin instead of
+// the Hugging Face hub and CDN, for machines without internet access
+export interface OfflineModelConfig {
+  // Directory holding <modelId>/config.json, tokenizer files and onnx/ weights
+  modelPath: string;
+  // Directory holding the onnxruntime-web .wasm and .mjs files
+  wasmPath: string;
+}
+
+// Weight precision of the ONNX model; lower precision loads and runs faster at some cost in accuracy
+export type TransformersDtype = 'fp32' | 'fp16' | 'q8' | 'q4';
+// 'auto' prefers WebGPU and falls back to WebAssembly
+export type TransformersDevice = 'auto' | 'wasm' | 'cpu' | 'webgpu';
+
+export interface TransformersConfig {
+  provider: 'transformers';
+  modelId: string;
+  // Defaults to fp32
+  dtype?: TransformersDtype;
+  // Defaults to auto
+  device?: TransformersDevice;
+  offline?: OfflineModelConfig;
+}
+
+// A cross-encoder that scores (query, passage) pairs; runs with transformers.js
+export interface RerankerConfig {
+  modelId: string;
+  // Defaults to fp32
+  dtype?: TransformersDtype;
+  offline?: OfflineModelConfig;
+}
+
+export type ProviderConfig =
+  | TransformersConfig
+  | { provider: 'hashing'; dimensions: number }
+  | { provider: 'openai-compatible'; baseUrl: string; model: string; apiKey?: string };
+
+// Reported while a provider loads; ready and failed follow from initialize()
+export type ProviderLoadEvent =
+  | { stage: 'downloading'; file: string; loadedBytes: number; totalBytes: number }
+  | { stage: 'compiling' };
+
+export interface ModelFileCheck {
+  required: string[];
+  missing: string[];
+}
+
+// Throughput of one dtype/device combination on the benchmark texts
+export interface BenchmarkRun {
+  dtype: TransformersDtype;
+  device: string;
+  loadMs: number;
+  textsPerSecond: number;
+}
+
+// Compares a transformers.js configuration with fp32 weights on the same device
+export interface BenchmarkResult {
+  texts: number;
+  candidate: BenchmarkRun;
+  reference: BenchmarkRun;
+  // Cosine similarity between the candidate's and fp32's vector for the same text
+  meanAgreement: number;
+  minAgreement: number;
+}
+
+// A backend that turns text into vectors. Providers run inside the embedding
+// worker and receive texts that are already preprocessed and batched.
+export interface EmbeddingProvider {
+  readonly id: ProviderId;
+  // Resolves with a short description of where inference runs, e.g. "webgpu"
+  initialize(onLoad?: (event: ProviderLoadEvent) => void): Promise<string>;
+  // Returns one vector per text, in input order
+  embedBatch(texts: string[]): Promise<number[][]>;
+  // Providers that load files report which ones are needed and which are absent
+  checkModelFiles?(): Promise<ModelFileCheck>;
+  dispose(): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import type { EmbeddingProvider } from '@/services/providers/EmbeddingProvider';
+
+// 32-bit FNV-1a; seeds give independent hashes for bucket and sign
+const fnv1a = (text: string, seed: number): number => {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Feature-hashing embeddings: every word and adjacent word pair is hashed into
+// a fixed number of signed buckets. Fully deterministic and offline, so it
+// works on any machine, though it only captures lexical overlap.
+export class HashingProvider implements EmbeddingProvider {
+  readonly id = 'hashing';
+
+  constructor(private readonly dimensions: number) {}
+
+  async initialize(): Promise<string> {
+    return 'hashing';
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async dispose(): Promise<void> {}
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = tokens.concat(tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`));
+
+    for (const feature of features) {
+      const bucket = fnv1a(feature, 0) % this.dimensions;
+      const sign = fnv1a(feature, 1) & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    // Damp repeated features, then L2-normalize so cosine similarity is a dot product
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = Math.sign(vector[i]) * Math.log1p(Math.abs(vector[i]));
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
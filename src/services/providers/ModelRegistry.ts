@@ -0,0 +1,122 @@
+import type { ProviderConfig } from '@/services/providers/EmbeddingProvider';
+
+// Known embedding models and the prompts they were trained with. Like
+// ProviderRegistry, this holds plain data so both the UI and the worker can use it.
+
+// '{text}' marks where the input goes
+export const TEXT_PLACEHOLDER = '{text}';
+
+export interface PromptTemplates {
+  query: string;
+  document: string;
+}
+
+export interface ModelDescriptor {
+  // Model name without its organization or tag, e.g. "bge-small-en-v1.5"
+  name: string;
+  // Full id to load with transformers.js
+  modelId: string;
+  label: string;
+  // Trained on many languages rather than English only
+  multilingual: boolean;
+  prompts: PromptTemplates;
+}
+
+const NO_PROMPTS: PromptTemplates = { query: TEXT_PLACEHOLDER, document: TEXT_PLACEHOLDER };
+
+export const EMBEDDING_MODELS: ModelDescriptor[] = [
+  {
+    name: 'mxbai-embed-xsmall-v1',
+    modelId: 'mixedbread-ai/mxbai-embed-xsmall-v1',
+    label: 'mxbai-embed-xsmall-v1 (English, 384d)',
+    multilingual: false,
+    prompts: { query: `Represent this sentence for searching relevant passages: ${TEXT_PLACEHOLDER}`, document: TEXT_PLACEHOLDER }
+  },
+  {
+    name: 'mxbai-embed-large-v1',
+    modelId: 'mixedbread-ai/mxbai-embed-large-v1',
+    label: 'mxbai-embed-large-v1 (English, 1024d)',
+    multilingual: false,
+    prompts: { query: `Represent this sentence for searching relevant passages: ${TEXT_PLACEHOLDER}`, document: TEXT_PLACEHOLDER }
+  },
+  {
+    name: 'bge-small-en-v1.5',
+    modelId: 'Xenova/bge-small-en-v1.5',
+    label: 'bge-small-en-v1.5 (English, 384d)',
+    multilingual: false,
+    prompts: { query: `Represent this sentence for searching relevant passages: ${TEXT_PLACEHOLDER}`, document: TEXT_PLACEHOLDER }
+  },
+  {
+    name: 'e5-small-v2',
+    modelId: 'Xenova/e5-small-v2',
+    label: 'e5-small-v2 (English, 384d)',
+    multilingual: false,
+    prompts: { query: `query: ${TEXT_PLACEHOLDER}`, document: `passage: ${TEXT_PLACEHOLDER}` }
+  },
+  {
+    name: 'nomic-embed-text-v1.5',
+    modelId: 'nomic-ai/nomic-embed-text-v1.5',
+    label: 'nomic-embed-text-v1.5 (English, 768d)',
+    multilingual: false,
+    prompts: { query: `search_query: ${TEXT_PLACEHOLDER}`, document: `search_document: ${TEXT_PLACEHOLDER}` }
+  },
+  {
+    name: 'all-MiniLM-L6-v2',
+    modelId: 'Xenova/all-MiniLM-L6-v2',
+    label: 'all-MiniLM-L6-v2 (English, 384d, symmetric)',
+    multilingual: false,
+    prompts: NO_PROMPTS
+  },
+  {
+    name: 'multilingual-e5-small',
+    modelId: 'Xenova/multilingual-e5-small',
+    label: 'multilingual-e5-small (~100 languages, 384d)',
+    multilingual: true,
+    prompts: { query: `query: ${TEXT_PLACEHOLDER}`, document: `passage: ${TEXT_PLACEHOLDER}` }
+  },
+  {
+    name: 'paraphrase-multilingual-MiniLM-L12-v2',
+    modelId: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    label: 'paraphrase-multilingual-MiniLM-L12-v2 (50+ languages, 384d, symmetric)',
+    multilingual: true,
+    prompts: NO_PROMPTS
+  }
+];
+
+// Ollama and llama.cpp serve models under short names and tags, e.g. "nomic-embed-text:latest"
+const ALIASES: Record<string, string> = {
+  'nomic-embed-text': 'nomic-embed-text-v1.5',
+  'mxbai-embed-large': 'mxbai-embed-large-v1'
+};
+
+const normalizeName = (model: string): string => {
+  const name = model.split('/').pop()!.split(':')[0].toLowerCase();
+  return ALIASES[name] ?? name;
+};
+
+export const findModel = (model: string): ModelDescriptor | undefined => {
+  const name = normalizeName(model);
+  return EMBEDDING_MODELS.find(descriptor => descriptor.name.toLowerCase() === name);
+};
+
+// Unknown models and the hashing provider embed text as is
+export const getPromptTemplates = (config: ProviderConfig): PromptTemplates => {
+  switch (config.provider) {
+    case 'transformers':
+      return findModel(config.modelId)?.prompts ?? NO_PROMPTS;
+    case 'openai-compatible':
+      return findModel(config.model)?.prompts ?? NO_PROMPTS;
+    case 'hashing':
+      return NO_PROMPTS;
+  }
+};
+
+export const applyPrompt = (template: string, text: string): string =>
+  template.includes(TEXT_PLACEHOLDER) ? template.replace(TEXT_PLACEHOLDER, () => text) : `${template}${text}`;
+
+// Cross-encoders trained on MS MARCO passage ranking, for the rerank stage
+export const RERANKER_MODELS: { modelId: string; label: string }[] = [
+  { modelId: 'Xenova/ms-marco-MiniLM-L-6-v2', label: 'ms-marco-MiniLM-L-6-v2 (English, balanced)' },
+  { modelId: 'Xenova/ms-marco-TinyBERT-L-2-v2', label: 'ms-marco-TinyBERT-L-2-v2 (English, fastest)' },
+  { modelId: 'Xenova/ms-marco-MiniLM-L-12-v2', label: 'ms-marco-MiniLM-L-12-v2 (English, most accurate)' }
+];
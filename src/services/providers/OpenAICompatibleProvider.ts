@@ -0,0 +1,57 @@
+import { InferenceError, InputTooLongError, ModelLoadError, OutOfMemoryError } from '@/services/EmbeddingErrors';
+import type { EmbeddingProvider } from '@/services/providers/EmbeddingProvider';
+
+interface EmbeddingsResponse {
+  data: { embedding: number[]; index: number }[];
+}
+
+// Calls an OpenAI-compatible /v1/embeddings endpoint, such as a local
+// llama.cpp server (`llama-server --embeddings`) or Ollama
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly id = 'openai-compatible';
+  private readonly endpoint: string;
+
+  constructor(baseUrl: string, private readonly model: string, private readonly apiKey?: string) {
+    // Accept both "http://host:port" and "http://host:port/v1"
+    this.endpoint = `${baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '')}/v1/embeddings`;
+  }
+
+  // Probes the endpoint once so a wrong URL or model fails here, not mid-indexing
+  async initialize(): Promise<string> {
+    try {
+      await this.embedBatch(['ping']);
+    } catch (error) {
+      throw new ModelLoadError(
+        `Embedding endpoint ${this.endpoint} is not usable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return new URL(this.endpoint).host;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, input: texts })
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 200);
+      const message = `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`;
+      if (response.status === 413) throw new InputTooLongError(message);
+      if (response.status === 507) throw new OutOfMemoryError(message);
+      throw new InferenceError(message);
+    }
+
+    const body = (await response.json()) as EmbeddingsResponse;
+    return body.data
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  async dispose(): Promise<void> {}
+}
@@ -0,0 +1,15 @@
+import { HashingProvider } from '@/services/providers/HashingProvider';
+import { OpenAICompatibleProvider } from '@/services/providers/OpenAICompatibleProvider';
+import { TransformersProvider } from '@/services/providers/TransformersProvider';
+import type { EmbeddingProvider, ProviderConfig } from '@/services/providers/EmbeddingProvider';
+
+export const createProvider = (config: ProviderConfig): EmbeddingProvider => {
+  switch (config.provider) {
+    case 'transformers':
+      return new TransformersProvider(config);
+    case 'hashing':
+      return new HashingProvider(config.dimensions);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey);
+  }
+};
@@ -0,0 +1,57 @@
+import type {
+  ProviderConfig,
+  ProviderId,
+  TransformersDevice,
+  TransformersDtype
+} from '@/services/providers/EmbeddingProvider';
+
+// Descriptors only: this module is imported by the UI, so it must not pull in
+// provider implementations (and with them transformers.js) on the main thread.
+// The worker builds providers through ProviderFactory.
+
+export interface ProviderDescriptor {
+  id: ProviderId;
+  label: string;
+  description: string;
+  defaultConfig: ProviderConfig;
+}
+
+export const PROVIDERS: ProviderDescriptor[] = [
+  {
+    id: 'transformers',
+    label: 'Transformers.js (in browser)',
+    description: 'Runs a transformer embedding model locally on WebGPU or CPU',
+    defaultConfig: { provider: 'transformers', modelId: 'mixedbread-ai/mxbai-embed-xsmall-v1', dtype: 'fp32', device: 'auto' }
+  },
+  {
+    id: 'hashing',
+    label: 'Hashing (offline)',
+    description: 'Deterministic feature hashing; no model download, lexical matching only',
+    defaultConfig: { provider: 'hashing', dimensions: 512 }
+  },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible endpoint',
+    description: 'Any /v1/embeddings server, e.g. a local llama.cpp or Ollama instance',
+    defaultConfig: { provider: 'openai-compatible', baseUrl: 'http://localhost:11434', model: 'nomic-embed-text' }
+  }
+];
+
+export const DEFAULT_PROVIDER_CONFIG = PROVIDERS[0].defaultConfig;
+
+export const getProviderDescriptor = (id: ProviderId): ProviderDescriptor =>
+  PROVIDERS.find(descriptor => descriptor.id === id) ?? PROVIDERS[0];
+
+export const TRANSFORMERS_DTYPES: { id: TransformersDtype; label: string }[] = [
+  { id: 'fp32', label: 'fp32 (full precision)' },
+  { id: 'fp16', label: 'fp16 (half precision)' },
+  { id: 'q8', label: 'q8 (8-bit quantized)' },
+  { id: 'q4', label: 'q4 (4-bit quantized)' }
+];
+
+export const TRANSFORMERS_DEVICES: { id: TransformersDevice; label: string }[] = [
+  { id: 'auto', label: 'Auto (WebGPU, then WebAssembly)' },
+  { id: 'webgpu', label: 'WebGPU' },
+  { id: 'wasm', label: 'WebAssembly' },
+  { id: 'cpu', label: 'CPU' }
+];
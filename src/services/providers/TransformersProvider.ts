@@ -0,0 +1,191 @@
+import { env, pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
+import { ModelFilesMissingError, ModelLoadError } from '@/services/EmbeddingErrors';
+import type {
+  EmbeddingProvider,
+  ModelFileCheck,
+  OfflineModelConfig,
+  ProviderLoadEvent,
+  TransformersConfig,
+  TransformersDevice,
+  TransformersDtype
+} from '@/services/providers/EmbeddingProvider';
+
+// File name suffix transformers.js uses for each dtype's ONNX weights
+const DTYPE_SUFFIXES: Record<TransformersDtype, string> = {
+  fp32: '',
+  fp16: '_fp16',
+  q8: '_quantized',
+  q4: '_q4'
+};
+
+// Files a feature-extraction model needs for a dtype, relative to its directory
+const getModelFiles = (dtype: TransformersDtype) => [
+  'config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  `onnx/model${DTYPE_SUFFIXES[dtype]}.onnx`
+];
+// onnxruntime-web files, which otherwise come from the jsDelivr CDN
+const RUNTIME_FILES = ['ort-wasm-simd-threaded.jsep.mjs', 'ort-wasm-simd-threaded.jsep.wasm'];
+
+const joinPath = (directory: string, file: string) => `${directory.replace(/\/+$/, '')}/${file}`;
+
+// Dev servers answer unknown paths with index.html, so an HTML response counts as missing
+const fileExists = async (url: string): Promise<boolean> => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && !(response.headers.get('content-type') ?? '').includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+// pipeline()'s generic return type is too complex for tsc to resolve, so pin it to our task
+const createExtractor = pipeline as (
+  task: 'feature-extraction',
+  model: string,
+  options?: Parameters<typeof pipeline>[2]
+) => Promise<FeatureExtractionPipeline>;
+
+type PipelineOptions = NonNullable<Parameters<typeof pipeline>[2]>;
+type ProgressInfo = Parameters<NonNullable<PipelineOptions['progress_callback']>>[0];
+
+// Sums byte progress over every file the pipeline fetches. Once all fetched
+// files are done, what remains is building the inference session.
+export const createLoadProgressCallback = (onLoad?: (event: ProviderLoadEvent) => void) => {
+  const files = new Map<string, { loaded: number; total: number; done: boolean }>();
+
+  return (info: ProgressInfo) => {
+    if (!onLoad || info.status === 'ready') return;
+
+    const file = files.get(info.file) ?? { loaded: 0, total: 0, done: false };
+    if (info.status === 'progress') {
+      file.loaded = info.loaded;
+      file.total = info.total;
+    } else if (info.status === 'done') {
+      file.done = true;
+    }
+    files.set(info.file, file);
+
+    const entries = Array.from(files.values());
+    if (entries.every(entry => entry.done)) {
+      onLoad({ stage: 'compiling' });
+    } else {
+      onLoad({
+        stage: 'downloading',
+        file: info.file,
+        loadedBytes: entries.reduce((sum, entry) => sum + entry.loaded, 0),
+        totalBytes: entries.reduce((sum, entry) => sum + entry.total, 0)
+      });
+    }
+  };
+};
+
+// Points transformers.js at the app's own copies of models and the ONNX runtime.
+// These are worker-wide settings, shared by every pipeline the worker loads.
+export const applyOfflineFiles = (offline: OfflineModelConfig) => {
+  env.allowRemoteModels = false;
+  env.allowLocalModels = true;
+  env.localModelPath = offline.modelPath.endsWith('/') ? offline.modelPath : `${offline.modelPath}/`;
+  env.backends.onnx.wasm!.wasmPaths = offline.wasmPath.endsWith('/') ? offline.wasmPath : `${offline.wasmPath}/`;
+};
+
+// Backends to try, in order. transformers.js only accepts 'cpu' under Node; in
+// the browser, CPU inference is the WebAssembly backend.
+const getBackends = (device: TransformersDevice): ('webgpu' | 'wasm')[] => {
+  switch (device) {
+    case 'auto':
+      return ['webgpu', 'wasm'];
+    case 'webgpu':
+      return ['webgpu'];
+    case 'wasm':
+    case 'cpu':
+      return ['wasm'];
+  }
+};
+
+// Runs a transformers.js feature-extraction pipeline in the browser
+export class TransformersProvider implements EmbeddingProvider {
+  readonly id = 'transformers';
+  private extractor: FeatureExtractionPipeline | null = null;
+
+  private readonly modelId: string;
+  private readonly dtype: TransformersDtype;
+  private readonly device: TransformersDevice;
+  private readonly offline?: OfflineModelConfig;
+
+  constructor(config: TransformersConfig) {
+    this.modelId = config.modelId;
+    this.dtype = config.dtype ?? 'fp32';
+    this.device = config.device ?? 'auto';
+    this.offline = config.offline;
+  }
+
+  async checkModelFiles(): Promise<ModelFileCheck> {
+    if (!this.offline) return { required: [], missing: [] };
+
+    const modelDirectory = joinPath(this.offline.modelPath, this.modelId);
+    const required = [
+      ...getModelFiles(this.dtype).map(file => joinPath(modelDirectory, file)),
+      ...RUNTIME_FILES.map(file => joinPath(this.offline!.wasmPath, file))
+    ];
+    const present = await Promise.all(required.map(fileExists));
+
+    return { required, missing: required.filter((_, i) => !present[i]) };
+  }
+
+  async initialize(onLoad?: (event: ProviderLoadEvent) => void): Promise<string> {
+    const progressCallback = createLoadProgressCallback(onLoad);
+
+    console.log(`Initializing local embedding model ${this.modelId}${this.offline ? ' from local files' : ''}...`);
+
+    if (this.offline) {
+      const { missing } = await this.checkModelFiles();
+      if (missing.length > 0) {
+        throw new ModelFilesMissingError(`Missing ${missing.length} offline model file(s): ${missing.join(', ')}`);
+      }
+
+      applyOfflineFiles(this.offline);
+    }
+
+    let lastError: unknown;
+    for (const backend of getBackends(this.device)) {
+      try {
+        this.extractor = await createExtractor('feature-extraction', this.modelId, {
+          device: backend,
+          dtype: this.dtype,
+          progress_callback: progressCallback
+        });
+
+        console.log(`Embedding model initialized on ${backend} (${this.dtype})`);
+        return backend;
+      } catch (error) {
+        console.warn(`Could not initialize embedding model on ${backend}:`, error);
+        lastError = error;
+      }
+    }
+
+    console.error('Failed to initialize embedding model:', lastError);
+    throw new ModelLoadError(
+      `Failed to initialize local embedding model: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+  }
+
+  // Runs one padded forward pass over the batch
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const result = await this.extractor!(texts, {
+      pooling: 'mean',
+      normalize: true
+    });
+
+    // Pooled output is [batch, dimensions]
+    const [rows, dimensions] = result.dims;
+    const data = result.data as Float32Array;
+    return Array.from({ length: rows }, (_, row) => Array.from(data.subarray(row * dimensions, (row + 1) * dimensions)));
+  }
+
+  async dispose(): Promise<void> {
+    await this.extractor?.dispose();
+    this.extractor = null;
+  }
+}
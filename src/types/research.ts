@@ -0,0 +1,143 @@
+import type { EmbeddingErrorCode } from '@/services/EmbeddingErrors';
+import type { EmbeddingSpace } from '@/services/EmbeddingSpace';
+import type { CompactVector } from '@/services/VectorQuantization';
+
+export interface DocumentChunk {
+  id: string;
+  index: number;
+  // Character offsets of the chunk within the parent document's content
+  start: number;
+  end: number;
+  // Unit length, possibly truncated and quantized; see VectorQuantization
+  embedding: CompactVector;
+  // Missing on chunks stored before vectors were tagged; those are always stale
+  space?: EmbeddingSpace;
+}
+
+export interface Document {
+  id: string;
+  title: string;
+  content: string;
+  chunks: DocumentChunk[];
+  metadata: {
+    source: string;
+    uploadedAt: Date;
+    wordCount: number;
+    // ISO 639-1 code, when language detection is enabled and confident
+    language?: string;
+    // Labels the user attached, for filtering searches
+    tags?: string[];
+  };
+  // Set when the last attempt to embed this document failed
+  embeddingError?: {
+    code: EmbeddingErrorCode;
+    message: string;
+  };
+}
+
+// Snapshot of a source document kept with a research run, so past runs
+// still render after the document itself has been deleted
+export type SourceDocument = Pick<Document, 'id' | 'title' | 'metadata'>;
+
+export type RetrievalMode = 'semantic' | 'keyword' | 'hybrid';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface SearchOptions {
+  mode: RetrievalMode;
+  // How hybrid mode combines the two signals
+  fusion: FusionMethod;
+  // Share of the weighted fusion given to the semantic signal, 0 to 1
+  semanticWeight: number;
+  // Maximal marginal relevance: trade relevance for hits unlike those already picked
+  mmr: boolean;
+  // 1 ranks by relevance alone, 0 by novelty alone
+  mmrLambda: number;
+  // Most hits one document may contribute; 0 for no limit
+  maxHitsPerDocument: number;
+}
+
+// Restricts a search to matching documents before any scoring. Every set
+// field must match; list fields compare case-insensitively.
+export interface SearchFilters {
+  uploadedFrom?: Date;
+  uploadedTo?: Date;
+  includeSources?: string[];
+  excludeSources?: string[];
+  // Lowercase extensions without the dot, e.g. "md"
+  includeFileTypes?: string[];
+  excludeFileTypes?: string[];
+  minWords?: number;
+  maxWords?: number;
+  // A document needs at least one of includeTags and none of excludeTags
+  includeTags?: string[];
+  excludeTags?: string[];
+}
+
+// A restriction read out of the query text, e.g. "only from the markdown notes"
+export interface QueryConstraint {
+  // Derived from the wording, so the same query yields the same ids on every run
+  id: string;
+  label: string;
+  // The words of the query it came from
+  phrase: string;
+  filters: SearchFilters;
+}
+
+// What each signal said about a hit; ranks are 1-based within that signal
+export interface HitScores {
+  semantic?: number;
+  semanticRank?: number;
+  keyword?: number;
+  keywordRank?: number;
+  // Cross-encoder score, with the hit's rank before and after reranking
+  rerank?: number;
+  rankBefore?: number;
+  rankAfter?: number;
+}
+
+export interface RetrievalHit {
+  documentId: string;
+  chunkId?: string;
+  title: string;
+  // The score the hit was ranked by: cosine similarity in semantic mode,
+  // otherwise a 0 to 1 keyword or fused score; the cross-encoder's when reranked
+  similarity: number;
+  scores?: HitScores;
+  excerpt: string;
+  start?: number;
+  end?: number;
+}
+
+export interface RetrievedDocument {
+  document: Document;
+  hits: RetrievalHit[];
+  score: number;
+}
+
+export interface ResearchStep {
+  id: string;
+  query: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  results: RetrievalHit[];
+  detail?: string;
+}
+
+export interface SearchResult {
+  id: string;
+  query: string;
+  steps: ResearchStep[];
+  documents: SourceDocument[];
+  synthesis: string;
+  // Missing on runs from before keyword and hybrid retrieval, which were semantic
+  options?: SearchOptions;
+  // Filters active when the run started; missing when none were
+  filters?: SearchFilters;
+  // Constraints found in the query and applied on top of filters
+  constraints?: QueryConstraint[];
+  // Ids of query constraints the user removed, so reruns leave them out
+  dismissedConstraints?: string[];
+  createdAt: Date;
+  completedAt?: Date;
+  pinned?: boolean;
+}
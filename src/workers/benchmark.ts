@@ -0,0 +1,95 @@
+import { createProvider } from '@/services/providers/ProviderFactory';
+import type {
+  BenchmarkResult,
+  BenchmarkRun,
+  ProviderLoadEvent,
+  TransformersConfig,
+  TransformersDevice
+} from '@/services/providers/EmbeddingProvider';
+
+// Mixed lengths and topics, so batches carry realistic padding
+const BENCHMARK_TEXTS = [
+  'What are the main findings of the study?',
+  'Retrieval-augmented generation grounds model answers in documents the user supplied.',
+  'The committee approved the budget after a lengthy debate about infrastructure spending and long-term maintenance costs.',
+  'Photosynthesis converts light energy into chemical energy stored in glucose.',
+  'Quarterly revenue grew by twelve percent, driven mostly by subscription renewals in the enterprise segment.',
+  'How does the proposed method compare with the baseline?',
+  'Soil samples were collected at three depths from each plot and dried at sixty degrees before analysis.',
+  'The protocol requires informed consent from every participant prior to enrollment.',
+  'A hash table offers constant expected time lookups at the cost of extra memory.',
+  'Rising sea levels threaten coastal infrastructure, and planners are weighing managed retreat against new seawalls and wetland restoration.',
+  'Summarize the limitations discussed by the authors.',
+  'The novel follows two sisters who inherit a failing vineyard and must decide whether to sell it.',
+  'Gradient descent updates parameters in the direction that most reduces the loss.',
+  'Patients in the treatment group reported fewer side effects than those receiving the standard therapy.',
+  'The bridge was closed for inspection after engineers detected unusual vibrations during high winds.',
+  'Which sources disagree, and on what points?'
+];
+
+const ROUNDS = 3;
+
+interface Measurement {
+  run: BenchmarkRun;
+  vectors: number[][];
+}
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Loads the model, warms it up once, then times a few passes over the benchmark texts
+const measure = async (config: TransformersConfig, onLoad?: (event: ProviderLoadEvent) => void): Promise<Measurement> => {
+  const provider = createProvider(config);
+  try {
+    const loadStart = performance.now();
+    const device = await provider.initialize(onLoad);
+    const loadMs = performance.now() - loadStart;
+
+    await provider.embedBatch(BENCHMARK_TEXTS.slice(0, 2));
+
+    const start = performance.now();
+    let vectors: number[][] = [];
+    for (let round = 0; round < ROUNDS; round++) {
+      vectors = await provider.embedBatch(BENCHMARK_TEXTS);
+    }
+    const seconds = (performance.now() - start) / 1000;
+
+    return {
+      run: { dtype: config.dtype ?? 'fp32', device, loadMs, textsPerSecond: (BENCHMARK_TEXTS.length * ROUNDS) / seconds },
+      vectors
+    };
+  } finally {
+    await provider.dispose();
+  }
+};
+
+// Runs the candidate, then fp32 on the device the candidate ended up on, one
+// model in memory at a time
+export const runBenchmark = async (
+  config: TransformersConfig,
+  onLoad?: (event: ProviderLoadEvent) => void
+): Promise<BenchmarkResult> => {
+  const candidate = await measure(config, onLoad);
+  const reference = (config.dtype ?? 'fp32') === 'fp32'
+    ? candidate
+    : await measure({ ...config, dtype: 'fp32', device: candidate.run.device as TransformersDevice }, onLoad);
+
+  const agreement = candidate.vectors.map((vector, i) => cosine(vector, reference.vectors[i]));
+
+  return {
+    texts: BENCHMARK_TEXTS.length,
+    candidate: candidate.run,
+    reference: reference.run,
+    meanAgreement: agreement.reduce((sum, value) => sum + value, 0) / agreement.length,
+    minAgreement: Math.min(...agreement)
+  };
+};
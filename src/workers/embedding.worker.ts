@@ -0,0 +1,273 @@
+import {
+  EmbeddingError,
+  InferenceError,
+  InputTooLongError,
+  ModelLoadError,
+  OutOfMemoryError
+} from '@/services/EmbeddingErrors';
+import { applyPrompt } from '@/services/providers/ModelRegistry';
+import { preprocessText, type PreprocessingOptions } from '@/services/TextPreprocessing';
+import { createProvider } from '@/services/providers/ProviderFactory';
+import { CrossEncoder } from '@/services/providers/CrossEncoder';
+import { runBenchmark } from '@/workers/benchmark';
+import type {
+  EmbeddingProvider,
+  ProviderConfig,
+  ProviderLoadEvent,
+  RerankerConfig
+} from '@/services/providers/EmbeddingProvider';
+import type { BatchOptions, EmbeddingRequest, EmbeddingResponse } from '@/workers/embeddingProtocol';
+
+const DEFAULT_BATCH_SIZE = 16;
+const DEFAULT_MAX_BATCH_TOKENS = 8192;
+// The model truncates longer inputs, so no text pads a batch beyond this
+const MAX_SEQUENCE_TOKENS = 512;
+// Inputs beyond this are rejected rather than silently cut. EmbeddingService.chunkText
+// caps chunks at half this, so only texts passed in directly can reach it
+const MAX_INPUT_CHARS = 8000;
+
+const OUT_OF_MEMORY_PATTERN = /out of memory|\boom\b|failed to allocate|allocation failed|memory access out of bounds/i;
+
+let provider: EmbeddingProvider | null = null;
+let activeConfig: string | null = null;
+let initPromise: Promise<string> | null = null;
+const cancelled = new Set<number>();
+
+let crossEncoderConfig: string | null = null;
+let crossEncoderPromise: Promise<CrossEncoder> | null = null;
+
+const respond = (response: EmbeddingResponse) => {
+  self.postMessage(response);
+};
+
+// Switching to a different config disposes the current provider first
+const initialize = async (config: ProviderConfig, onLoad?: (event: ProviderLoadEvent) => void): Promise<string> => {
+  const configKey = JSON.stringify(config);
+  if (configKey !== activeConfig) {
+    const previous = provider;
+    provider = null;
+    initPromise = null;
+    activeConfig = configKey;
+    await previous?.dispose();
+  }
+
+  if (!initPromise) {
+    const candidate = createProvider(config);
+    initPromise = candidate.initialize(onLoad)
+      .then(device => {
+        // A newer init may have replaced this config while it was loading
+        if (activeConfig !== configKey) {
+          candidate.dispose();
+          throw new ModelLoadError('Embedding provider was replaced during initialization');
+        }
+        provider = candidate;
+        return device;
+      })
+      .catch(error => {
+        if (activeConfig === configKey) {
+          initPromise = null;
+          activeConfig = null;
+        }
+        throw error instanceof EmbeddingError
+          ? error
+          : new ModelLoadError(`Failed to initialize embedding provider: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }
+  return initPromise;
+};
+
+// The reranker loads next to the embedding provider; a different config replaces it
+const loadCrossEncoder = (config: RerankerConfig, onLoad?: (event: ProviderLoadEvent) => void): Promise<CrossEncoder> => {
+  const configKey = JSON.stringify(config);
+  if (configKey !== crossEncoderConfig || !crossEncoderPromise) {
+    const previous = crossEncoderPromise;
+    crossEncoderConfig = configKey;
+    crossEncoderPromise = (async () => {
+      await (await previous?.catch(() => null))?.dispose();
+      const candidate = new CrossEncoder(config);
+      await candidate.initialize(onLoad);
+      return candidate;
+    })();
+    crossEncoderPromise.catch(() => {
+      if (crossEncoderConfig === configKey) {
+        crossEncoderConfig = null;
+        crossEncoderPromise = null;
+      }
+    });
+  }
+  return crossEncoderPromise;
+};
+
+const ready = async (): Promise<EmbeddingProvider> => {
+  if (!initPromise) {
+    throw new ModelLoadError('Embedding provider has not been initialized');
+  }
+  await initPromise;
+  return provider!;
+};
+
+// Rejects rather than silently cuts inputs beyond the limit
+const preprocess = (text: string, options?: PreprocessingOptions): string => {
+  const cleaned = preprocessText(text, options);
+  if (cleaned.length > MAX_INPUT_CHARS) {
+    throw new InputTooLongError(`Input is ${cleaned.length} characters after cleaning; the limit is ${MAX_INPUT_CHARS}`);
+  }
+  return cleaned;
+};
+
+const toEmbeddingError = (error: unknown): EmbeddingError => {
+  if (error instanceof EmbeddingError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof RangeError || OUT_OF_MEMORY_PATTERN.test(message)) {
+    return new OutOfMemoryError(`Ran out of memory while generating embeddings: ${message}`);
+  }
+  return new InferenceError(`Embedding inference failed: ${message}`);
+};
+
+// Han, kana and Hangul characters mostly become a token each
+const IDEOGRAPHIC = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+// Rough token count: ~4 characters per token for alphabetic scripts, one per ideograph
+const estimateTokens = (text: string): number => {
+  const ideographs = text.match(IDEOGRAPHIC)?.length ?? 0;
+  return Math.min(ideographs + Math.ceil((text.length - ideographs) / 4) + 2, MAX_SEQUENCE_TOKENS);
+};
+
+// Groups texts of similar length so little of each batch is padding. Returns
+// indices into texts, so results can be put back in input order.
+const planBatches = (texts: string[], options: BatchOptions = {}): number[][] => {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const maxBatchTokens = Math.max(1, options.maxBatchTokens ?? DEFAULT_MAX_BATCH_TOKENS);
+  const tokens = texts.map(estimateTokens);
+  const order = texts.map((_, index) => index).sort((a, b) => tokens[a] - tokens[b]);
+
+  const batches: number[][] = [];
+  let current: number[] = [];
+  for (const index of order) {
+    // Sorted ascending, so this text sets the padded length of the batch
+    const paddedTokens = (current.length + 1) * tokens[index];
+    if (current.length > 0 && (current.length >= batchSize || paddedTokens > maxBatchTokens)) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(index);
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+};
+
+const infer = async (cleanTexts: string[]): Promise<number[][]> => {
+  const active = await ready();
+  try {
+    return await active.embedBatch(cleanTexts);
+  } catch (error) {
+    throw toEmbeddingError(error);
+  }
+};
+
+// The prompt goes on after cleaning, which could otherwise strip its punctuation
+const prepareText = (text: string, prompt?: string, options?: PreprocessingOptions): string => {
+  const cleanText = preprocess(text, options);
+  return prompt ? applyPrompt(prompt, cleanText) : cleanText;
+};
+
+const embed = async (text: string, prompt?: string, options?: PreprocessingOptions): Promise<number[]> => {
+  const cleanText = prepareText(text, prompt, options);
+  const [embedding] = await infer([cleanText]);
+
+  console.log(`Generated embedding for text (${cleanText.length} chars): ${embedding.length} dimensions`);
+  return embedding;
+};
+
+const handleRequest = async (request: EmbeddingRequest) => {
+  switch (request.type) {
+    case 'init': {
+      const device = await initialize(request.config, (event) => respond({ type: 'loading', id: request.id, event }));
+      respond({ type: 'ready', id: request.id, device });
+      break;
+    }
+    case 'checkModelFiles': {
+      const candidate = createProvider(request.config);
+      const check = candidate.checkModelFiles ? await candidate.checkModelFiles() : { required: [], missing: [] };
+      respond({ type: 'modelFiles', id: request.id, ...check });
+      break;
+    }
+    case 'embed': {
+      const embedding = await embed(request.text, request.prompt, request.preprocessing);
+      if (cancelled.delete(request.id)) {
+        respond({ type: 'cancelled', id: request.id });
+        return;
+      }
+      respond({ type: 'embedding', id: request.id, embedding });
+      break;
+    }
+    case 'embedBatch': {
+      const cleanTexts = request.texts.map(text => prepareText(text, request.prompt, request.preprocessing));
+      const batches = planBatches(cleanTexts, request.options);
+      const embeddings: number[][] = new Array(cleanTexts.length);
+      let completed = 0;
+
+      for (let batch = 0; batch < batches.length; batch++) {
+        // Cancellation is checked between batches; messages are handled while inference awaits
+        if (cancelled.delete(request.id)) {
+          respond({ type: 'cancelled', id: request.id });
+          return;
+        }
+
+        const indices = batches[batch];
+        const batchEmbeddings = await infer(indices.map(index => cleanTexts[index]));
+        indices.forEach((index, i) => {
+          embeddings[index] = batchEmbeddings[i];
+        });
+
+        completed += indices.length;
+        respond({
+          type: 'progress',
+          id: request.id,
+          completed,
+          total: cleanTexts.length,
+          batch: batch + 1,
+          batches: batches.length
+        });
+      }
+
+      console.log(`Generated ${embeddings.length} embeddings in ${batches.length} batches`);
+      respond({ type: 'embeddings', id: request.id, embeddings });
+      break;
+    }
+    case 'benchmark': {
+      const result = await runBenchmark(request.config, (event) => respond({ type: 'loading', id: request.id, event }));
+      respond({ type: 'benchmark', id: request.id, result });
+      break;
+    }
+    case 'rerank': {
+      const crossEncoder = await loadCrossEncoder(request.config, (event) => respond({ type: 'loading', id: request.id, event }));
+      // Checked between batches, like embedBatch
+      const scores = await crossEncoder.score(
+        request.query,
+        request.passages.map(passage => preprocessText(passage)),
+        () => cancelled.has(request.id)
+      );
+      if (cancelled.delete(request.id) || !scores) {
+        respond({ type: 'cancelled', id: request.id });
+        return;
+      }
+      respond({ type: 'rerankScores', id: request.id, scores });
+      break;
+    }
+    case 'cancel':
+      cancelled.add(request.id);
+      break;
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<EmbeddingRequest>) => {
+  const request = event.data;
+  handleRequest(request).catch((error) => {
+    cancelled.delete(request.id);
+    const embeddingError = toEmbeddingError(error);
+    respond({ type: 'error', id: request.id, code: embeddingError.code, message: embeddingError.message });
+  });
+});
@@ -0,0 +1,55 @@
+import type { EmbeddingErrorCode } from '@/services/EmbeddingErrors';
+import type {
+  BenchmarkResult,
+  ModelFileCheck,
+  ProviderConfig,
+  ProviderLoadEvent,
+  RerankerConfig,
+  TransformersConfig
+} from '@/services/providers/EmbeddingProvider';
+import type { PreprocessingOptions } from '@/services/TextPreprocessing';
+
+// Messages exchanged between EmbeddingService and the embedding worker.
+// Every request carries an id; the worker answers with the same id.
+
+export interface BatchOptions {
+  // Upper bound on texts per forward pass
+  batchSize?: number;
+  // Upper bound on padded tokens per forward pass (texts x longest text), which caps activation memory
+  maxBatchTokens?: number;
+}
+
+export type EmbeddingRequest =
+  // Loads the given provider, replacing the current one if the config differs
+  | { type: 'init'; id: number; config: ProviderConfig }
+  // Reports which files the given provider needs without loading it
+  | { type: 'checkModelFiles'; id: number; config: ProviderConfig }
+  // prompt is a template from ModelRegistry, applied after preprocessing
+  | { type: 'embed'; id: number; text: string; prompt?: string; preprocessing?: PreprocessingOptions }
+  | {
+      type: 'embedBatch';
+      id: number;
+      texts: string[];
+      options?: BatchOptions;
+      prompt?: string;
+      preprocessing?: PreprocessingOptions;
+    }
+  // Times the config against fp32 without touching the active provider
+  | { type: 'benchmark'; id: number; config: TransformersConfig }
+  // Scores each passage against the query with a cross-encoder, loading it on first use
+  | { type: 'rerank'; id: number; config: RerankerConfig; query: string; passages: string[] }
+  // Cancels the in-flight request with the given id
+  | { type: 'cancel'; id: number };
+
+export type EmbeddingResponse =
+  // Loading progress for the init, benchmark or rerank request with this id
+  | { type: 'loading'; id: number; event: ProviderLoadEvent }
+  | { type: 'ready'; id: number; device: string }
+  | ({ type: 'modelFiles'; id: number } & ModelFileCheck)
+  | { type: 'embedding'; id: number; embedding: number[] }
+  | { type: 'embeddings'; id: number; embeddings: number[][] }
+  | { type: 'benchmark'; id: number; result: BenchmarkResult }
+  | { type: 'rerankScores'; id: number; scores: number[] }
+  | { type: 'progress'; id: number; completed: number; total: number; batch: number; batches: number }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; code: EmbeddingErrorCode; message: string };